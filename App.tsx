@@ -1,161 +1,184 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { Frame as RawFrame, FrameData, FrameBox, BoxType } from './types';
+import { Frame, FrameData, ManifestIssue, TestConfig } from './types';
 import { FileUpload } from './components/FileUpload';
 import { TestPlayer } from './components/TestPlayer';
+import { ManifestIssueList } from './components/ManifestIssueList';
+import { TestEditor } from './components/TestEditor';
+import { ResultVerification } from './components/ResultVerification';
+import { ManifestValidationError, validateFrameBounds } from './utils/manifestValidation';
+import { openPackageFile, openFolder, readManifest, findImageEntry, findEmbeddedImage, measureImageEntry, FolderEntry, PackageFile, TestPackage } from './utils/testPackage';
+import { FrameImageLoader } from './utils/frameImages';
+import { buildFrameContent, resolveSections } from './utils/testFlow';
+import { computeTestId, cachePackage, getCachedPackage, pruneCachedPackages } from './utils/attemptStorage';
+import { fetchFile, FileFetchError } from './utils/fileFetch';
+import { getDriveConfirmationUrl, resolveShareLink } from './utils/linkResolver';
 
-// Make JSZip available from the global window object loaded via CDN
-declare const JSZip: any;
+type GameState = 'uploading' | 'playing' | 'processing' | 'error' | 'authoring' | 'verifying';
 
-type GameState = 'uploading' | 'playing' | 'processing' | 'error';
+// Image headers read at the same time while a test loads.
+const MEASURE_CONCURRENCY = 6;
 
 const App: React.FC = () => {
     const [gameState, setGameState] = useState<GameState>('uploading');
     const [frames, setFrames] = useState<FrameData[]>([]);
     const [error, setError] = useState<string | null>(null);
+    const [errorIssues, setErrorIssues] = useState<ManifestIssue[]>([]);
     const [testUrl, setTestUrl] = useState<string | null>(null);
+    const [testId, setTestId] = useState<string | null>(null);
+    const [testConfig, setTestConfig] = useState<TestConfig>({});
+    const [frameImages, setFrameImages] = useState<FrameImageLoader | null>(null);
+    const [loadProgress, setLoadProgress] = useState<{ done: number, total: number } | null>(null);
+    const [verificationCode, setVerificationCode] = useState('');
 
     const cleanupResources = useCallback(() => {
-        frames.forEach(frame => URL.revokeObjectURL(frame.imageDataUrl));
-    }, [frames]);
+        frameImages?.dispose();
+    }, [frameImages]);
 
     const handleReset = useCallback(() => {
         cleanupResources();
         setGameState('uploading');
         setFrames([]);
+        setFrameImages(null);
+        setTestId(null);
+        setTestConfig({});
         setError(null);
+        setErrorIssues([]);
         setTestUrl(null);
         // Clear query params from URL
         window.history.replaceState({}, document.title, window.location.pathname);
     }, [cleanupResources]);
 
-    const processZipFile = useCallback(async (file: File | Blob) => {
+    const processPackage = useCallback(async (openPackage: () => Promise<TestPackage>, knownTestId?: string) => {
         try {
-            const zip = await JSZip.loadAsync(file);
+            const testPackage = await openPackage();
+            const manifest = await readManifest(testPackage);
+            const parsedFrames = manifest.frames;
 
-            let dataFile = null;
-            for (const relativePath in zip.files) {
-                if (relativePath.endsWith('.json') && !zip.files[relativePath].dir && !relativePath.startsWith('__MACOSX/')) {
-                    dataFile = zip.file(relativePath);
-                    break;
+            const issues: ManifestIssue[] = [];
+            // Images are only measured here; they are decoded when a frame is about to be shown.
+            const imageEntries = new Map<string, PackageFile>();
+            const loadFrame = async (frame: Frame, frameIndex: number): Promise<FrameData | null> => {
+                const imageFile = findImageEntry(testPackage, frame.image) ?? findEmbeddedImage(manifest, frame.image);
+
+                if (!imageFile) {
+                    issues.push({ frameIndex, path: 'image', expected: 'file present in the package', actual: `"${frame.image}" not found` });
+                    return null;
                 }
-            }
 
-            if (!dataFile) {
-                throw new Error('ZIP file must contain a JSON manifest file.');
-            }
+                let dimensions: { width: number, height: number };
+                try {
+                    dimensions = await measureImageEntry(imageFile, frame.image);
+                } catch {
+                    issues.push({ frameIndex, path: 'image', expected: 'decodable image', actual: `"${frame.image}" could not be read` });
+                    return null;
+                }
+                const { width, height } = dimensions;
+                issues.push(...validateFrameBounds(frame, frameIndex, width, height));
 
-            const content = await dataFile.async('string');
-            const parsedFrames: RawFrame[] = JSON.parse(content);
-            
-            if (!Array.isArray(parsedFrames) || parsedFrames.length === 0) {
-                throw new Error('JSON file is empty or has an invalid format.');
+                const content = buildFrameContent(parsedFrames, frameIndex);
+                imageEntries.set(content.id, imageFile);
+                return { ...content, originalWidth: width, originalHeight: height };
+            };
+
+            // Frames are measured a few at a time, so large packages do not wait on each image header in turn.
+            const loadedFrames: (FrameData | null)[] = new Array(parsedFrames.length).fill(null);
+            let nextIndex = 0;
+            let done = 0;
+            setLoadProgress({ done: 0, total: parsedFrames.length });
+            const measureNext = async () => {
+                while (nextIndex < parsedFrames.length) {
+                    const frameIndex = nextIndex++;
+                    loadedFrames[frameIndex] = await loadFrame(parsedFrames[frameIndex], frameIndex);
+                    setLoadProgress({ done: ++done, total: parsedFrames.length });
+                }
+            };
+            await Promise.all(Array.from({ length: Math.min(MEASURE_CONCURRENCY, parsedFrames.length) }, measureNext));
+
+            if (issues.length > 0) {
+                issues.sort((a, b) => (a.frameIndex ?? -1) - (b.frameIndex ?? -1));
+                throw new ManifestValidationError(issues);
             }
-            
-            const processedFrames: FrameData[] = await Promise.all(
-              parsedFrames.map(async (frame) => {
-                    const imagePath = Object.keys(zip.files).find(path => 
-                        !zip.files[path].dir && (path.endsWith('/' + frame.image) || path === frame.image)
-                    );
-
-                    if (!imagePath) {
-                        throw new Error(`Image file "${frame.image}" specified in the JSON was not found in the ZIP.`);
-                    }
-                    
-                    const imageFile = zip.file(imagePath);
-                    if (!imageFile) {
-                         throw new Error(`Could not load image file: ${frame.image}`);
-                    }
-
-                    const blob = await imageFile.async('blob');
-                    const url = URL.createObjectURL(blob);
-
-                    const { width, height } = await new Promise<{width: number, height: number}>((resolve, reject) => {
-                        const img = new Image();
-                        img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
-                        img.onerror = () => reject(new Error(`Could not get dimensions for image: ${frame.image}`));
-                        img.src = url;
-                    });
-
-                    const boxes: FrameBox[] = [];
-                    frame.hotspots.forEach(h => {
-                        boxes.push({ ...h, id: crypto.randomUUID(), type: BoxType.HOTSPOT });
-                    });
-                    frame.inputs.forEach(i => {
-                        boxes.push({ ...i, id: crypto.randomUUID(), type: BoxType.INPUT });
-                    });
-
-                    return {
-                        id: crypto.randomUUID(),
-                        imageFileName: frame.image,
-                        imageDataUrl: url,
-                        originalWidth: width,
-                        originalHeight: height,
-                        boxes,
-                    };
-                })
-            );
+            const processedFrames = loadedFrames as FrameData[];
+            const images = new FrameImageLoader(frameId => (imageEntries.get(frameId) as PackageFile).read());
+            images.prefetch(processedFrames.slice(0, 2).map(frame => frame.id));
 
             setFrames(processedFrames);
+            setFrameImages(images);
+            setTestId(knownTestId ?? await computeTestId(testPackage.source));
+            const { frames: _frames, images: _images, ...config } = manifest;
+            config.sections = resolveSections(parsedFrames, config.sections);
+            setTestConfig(config);
             setGameState('playing');
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during file processing.';
             setError(errorMessage);
+            setErrorIssues(err instanceof ManifestValidationError ? err.issues : []);
             setGameState('error');
             console.error(err);
+        } finally {
+            setLoadProgress(null);
         }
     }, []);
 
     const handleFileUpload = useCallback(async (file: File) => {
         setGameState('processing');
         setError(null);
+        setErrorIssues([]);
         setTestUrl(null);
-        await processZipFile(file);
-    }, [processZipFile]);
+        await processPackage(() => openPackageFile(file));
+    }, [processPackage]);
+
+    const handleFolderUpload = useCallback(async (entries: FolderEntry[]) => {
+        setGameState('processing');
+        setError(null);
+        setErrorIssues([]);
+        setTestUrl(null);
+        await processPackage(async () => openFolder(entries));
+    }, [processPackage]);
     
     const handleUrlSubmit = useCallback(async (rawUrl: string) => {
         setGameState('processing');
         setError(null);
+        setErrorIssues([]);
 
-        let urlToFetch = rawUrl.trim();
-        const gdriveRegex = /drive\.google\.com\/file\/d\/([a-zA-Z0-9_-]+)/;
-        const match = urlToFetch.match(gdriveRegex);
-
-        if (match && match[1]) {
-            const fileId = match[1];
-            urlToFetch = `https://drive.google.com/uc?export=download&id=${fileId}`;
-        }
-        
         setTestUrl(rawUrl.trim()); // Store the original, user-facing URL
 
         try {
-            // Using a more reliable CORS proxy to fetch from any URL.
-            const proxyUrl = `https://file-proxy-cwma.onrender.com/proxy?url=${encodeURIComponent(urlToFetch)}`;
-            const response = await fetch(proxyUrl);
-            
-            if (!response.ok) {
-                let errorHint = `Status: ${response.status} ${response.statusText}.`;
-                if (rawUrl.includes('drive.google.com')) {
-                    errorHint += ' For Google Drive links, please ensure the sharing permission is set to "Anyone with the link". Private files cannot be accessed.'
+            // Reuse a package cached for an unfinished attempt so it can be resumed without re-downloading.
+            const cachedPackage = await getCachedPackage(rawUrl.trim()).catch(() => null);
+            if (cachedPackage) {
+                await processPackage(() => openPackageFile(cachedPackage));
+                return;
+            }
+
+            // Share links from cloud storage are rewritten to download the file rather than a preview page.
+            const link = resolveShareLink(rawUrl.trim());
+            const download = async (url: string): Promise<Blob> => {
+                try {
+                    return await (await fetchFile(url)).blob();
+                } catch (fetchError) {
+                    if (!(fetchError instanceof FileFetchError)) throw fetchError;
+                    throw new Error(`Failed to fetch file from URL. ${fetchError.message}${link.hint ? ` ${link.hint}` : ''}`);
                 }
-                throw new Error(`Failed to fetch file from URL. ${errorHint}`);
+            };
+
+            let blob = await download(link.url);
+
+            // Google Drive asks for confirmation before serving files it could not scan for viruses.
+            if (blob.type.includes('html') && link.provider === 'google-drive') {
+                const confirmationUrl = getDriveConfirmationUrl(await blob.text());
+                if (confirmationUrl) blob = await download(confirmationUrl);
             }
-            
-            const blob = await response.blob();
-            
+
             if (blob.type.includes('html')) {
-                let errorHint = 'The URL may be incorrect, private, or point to a webpage instead of a direct file link.';
-                 if (rawUrl.includes('drive.google.com')) {
-                    errorHint = 'This can happen with Google Drive if the file is private (please set sharing to "Anyone with the link") or if it is too large and requires a "virus scan" confirmation page. Please ensure it is a direct, public download link.';
-                }
+                const errorHint = link.hint ?? 'The URL may be incorrect, private, or point to a webpage instead of a direct file link.';
                 throw new Error(`Failed to download the file. ${errorHint}`);
             }
 
-            // Heuristic check for zip file, as Content-Type might not be reliable
-            if (!blob.type.includes('zip') && !rawUrl.trim().endsWith('.zip')) {
-                 console.warn('Warning: The file from the URL does not appear to be a ZIP file, but we will attempt to process it anyway.');
-            }
+            const downloadedTestId = await computeTestId(blob);
+            cachePackage(rawUrl.trim(), downloadedTestId, blob).catch(err => console.warn('Could not cache the test package:', err));
 
-            await processZipFile(blob);
+            await processPackage(() => openPackageFile(blob), downloadedTestId);
 
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred while fetching the URL.';
@@ -163,44 +186,95 @@ const App: React.FC = () => {
             setGameState('error');
             console.error(err);
         }
-    }, [processZipFile]);
+    }, [processPackage]);
+
+    useEffect(() => {
+        pruneCachedPackages().catch(err => console.warn('Could not prune cached test packages:', err));
+    }, []);
 
     useEffect(() => {
         const params = new URLSearchParams(window.location.search);
         const urlFromQuery = params.get('testUrl');
+        const codeFromQuery = params.get('verify');
         if (urlFromQuery) {
             handleUrlSubmit(urlFromQuery);
+        } else if (codeFromQuery) {
+            // Certificates link here to have their verification code checked.
+            setVerificationCode(codeFromQuery);
+            setGameState('verifying');
         }
     }, [handleUrlSubmit]);
 
+    // Tests with a title are shared through the share route, whose page gives link previews the title and description from the manifest.
     const shareableLink = useMemo(() => {
         if (!testUrl) return undefined;
         const url = new URL(window.location.href);
         url.search = `?testUrl=${encodeURIComponent(testUrl)}`;
+        if (testConfig.title) url.pathname = '/api/share';
         return url.toString();
-    }, [testUrl]);
+    }, [testUrl, testConfig.title]);
+
+    // The open test's title names the browser tab.
+    useEffect(() => {
+        if (gameState !== 'playing' || !testConfig.title) return;
+        const previousTitle = document.title;
+        document.title = `${testConfig.title} | EvaluationLab`;
+        return () => {
+            document.title = previousTitle;
+        };
+    }, [gameState, testConfig.title]);
+
+    const showTestTitle = gameState === 'playing' && !!testConfig.title;
 
 
     return (
         <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-gray-900">
-            <header className="relative w-full backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl py-6 mb-8 shadow-lg hover:shadow-xl transition-all duration-500">
+            <header className="relative w-full print:hidden backdrop-blur-xl bg-white/10 border border-white/20 rounded-2xl py-6 mb-8 shadow-lg hover:shadow-xl transition-all duration-500">
   <div className="absolute inset-0 bg-gradient-to-r from-white/30 via-transparent to-white/30 opacity-40 rounded-2xl pointer-events-none"></div>
   <div className="relative text-center">
     <h1 className="text-4xl md:text-5xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-white via-gray-100 to-indigo-200 drop-shadow-sm">
-      Evaluation<span className="text-indigo-400">Lab</span>
+      {showTestTitle ? testConfig.title : <>Evaluation<span className="text-indigo-400">Lab</span></>}
     </h1>
     <p className="mt-2 text-gray-300 text-sm md:text-base font-medium italic tracking-wide">
-      Smart • Fast • Insightful Evaluations
+      {showTestTitle
+        ? <>{testConfig.author && `By ${testConfig.author} • `}Evaluation<span className="text-indigo-400">Lab</span></>
+        : 'Smart • Fast • Insightful Evaluations'}
     </p>
   </div>
 </header>
             <main className="w-full max-w-9xl flex-grow flex items-center justify-center">
-                {gameState === 'uploading' && <FileUpload onFileUpload={handleFileUpload} onUrlSubmit={handleUrlSubmit} />}
-                {gameState === 'processing' && <div className="text-xl">Processing your test...</div>}
+                {gameState === 'uploading' && (
+                    <FileUpload
+                        onFileUpload={handleFileUpload}
+                        onFolderUpload={handleFolderUpload}
+                        onUrlSubmit={handleUrlSubmit}
+                        onOpenEditor={() => setGameState('authoring')}
+                    />
+                )}
+                {gameState === 'authoring' && <TestEditor onExit={handleReset} />}
+                {gameState === 'verifying' && <ResultVerification initialCode={verificationCode} onExit={handleReset} />}
+                {gameState === 'processing' && (
+                    <div className="w-full max-w-md text-center" role="status" aria-live="polite">
+                        <div className="text-xl">Processing your test...</div>
+                        {loadProgress && loadProgress.total > 0 && (
+                            <>
+                                <div className="mt-4 w-full bg-gray-700 rounded-full h-2.5">
+                                    <div className="bg-purple-600 h-2.5 rounded-full transition-all" style={{ width: `${(loadProgress.done / loadProgress.total) * 100}%` }}></div>
+                                </div>
+                                <p className="mt-2 text-sm text-gray-400">Reading frame {loadProgress.done} of {loadProgress.total}</p>
+                            </>
+                        )}
+                    </div>
+                )}
                 {(gameState === 'error') && (
                     <div className="text-center p-8 bg-gray-800 rounded-lg shadow-lg">
                         <h2 className="text-2xl text-red-400 mb-4">An Error Occurred</h2>
                         <p className="text-gray-300 mb-6">{error}</p>
+                        {errorIssues.length > 0 && (
+                            <div className="mb-6">
+                                <ManifestIssueList issues={errorIssues} />
+                            </div>
+                        )}
                         <button
                             onClick={handleReset}
                             className="px-6 py-2 bg-purple-600 hover:bg-purple-700 rounded-md font-semibold transition-colors">
@@ -208,9 +282,12 @@ const App: React.FC = () => {
                         </button>
                     </div>
                 )}
-                {gameState === 'playing' && frames.length > 0 && (
+                {gameState === 'playing' && frames.length > 0 && frameImages && (
                     <TestPlayer
                         frames={frames}
+                        frameImages={frameImages}
+                        testConfig={testConfig}
+                        testId={testId}
                         onExitTest={handleReset}
                         shareableLink={shareableLink}
                         testUrl={testUrl}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { AttemptSubmission, BoxType, Manifest, SessionEvent } from '../../types';
+import { FrameContent } from '../../utils/testFlow';
+import { scoreSubmission } from './attemptScoring';
+import { issueSeed } from './attemptSeed';
+import { LoadedTest } from './testLoader';
+
+const TEST_URL = 'https://example.com/test.zip';
+process.env.SEED_SECRET = 'test secret';
+
+const frames: FrameContent[] = [
+  {
+    id: 'f1',
+    imageFileName: 'one.png',
+    boxes: [
+      { id: 'save', label: 'Save', type: BoxType.HOTSPOT, x: 0, y: 0, w: 10, h: 10 },
+      { id: 'delete', label: 'Delete', type: BoxType.HOTSPOT, x: 20, y: 0, w: 10, h: 10, mistake: true },
+    ],
+  },
+  {
+    id: 'f2',
+    imageFileName: 'two.png',
+    boxes: [
+      { id: 'city', label: 'City', type: BoxType.INPUT, x: 0, y: 0, w: 50, h: 10, expected: 'Paris' },
+      { id: 'file', label: 'File', type: BoxType.DRAG, x: 0, y: 20, w: 10, h: 10, to: { x: 50, y: 50, w: 20, h: 20 } },
+    ],
+  },
+];
+
+const loadedTest = (manifest: Partial<Manifest> = {}): LoadedTest => ({ url: TEST_URL, manifest: { frames: [], ...manifest }, frames });
+
+// A candidate who answers everything correctly, spending two seconds on each frame.
+const events = (overrides: { drop?: { x: number, y: number }, city?: string } = {}): SessionEvent[] => [
+  { type: 'test-start', time: 0, frameId: 'f1' },
+  { type: 'frame-enter', time: 0, frameId: 'f1' },
+  { type: 'hotspot-click', time: 1000, frameId: 'f1', boxId: 'save', correct: true },
+  { type: 'frame-leave', time: 2000, frameId: 'f1' },
+  { type: 'navigate', time: 2000, frameId: 'f1', toFrameId: 'f2', direction: 'next' },
+  { type: 'frame-enter', time: 2000, frameId: 'f2' },
+  { type: 'input-change', time: 2500, frameId: 'f2', boxId: 'city', value: overrides.city ?? 'Paris' },
+  { type: 'drag-end', time: 3000, frameId: 'f2', boxId: 'file', correct: true, ...(overrides.drop ?? { x: 60, y: 60 }) },
+  { type: 'test-submit', time: 4000, frameId: 'f2' },
+];
+
+const submission = (overrides: Partial<AttemptSubmission> = {}): AttemptSubmission => ({
+  email: 'candidate@example.com',
+  time: 4,
+  answers: {
+    f1: { inputs: {}, hotspotsClicked: { save: true } },
+    f2: { inputs: { city: 'Paris' }, hotspotsClicked: {}, completed: { file: true } },
+  },
+  events: events(),
+  ...overrides,
+});
+
+describe('scoreSubmission', () => {
+  it('scores an attempt whose answers agree with its events', () => {
+    const entry = scoreSubmission(loadedTest({ passingScore: 3 }), submission());
+    expect(entry).toMatchObject({ email: 'candidate@example.com', score: 3, totalPossible: 3, time: 4, passed: true });
+  });
+
+  it('scores the answers the events show, not a correct flag the player sent', () => {
+    const attempt = submission({
+      events: events({ drop: { x: 5, y: 5 }, city: 'Lyon' }),
+      answers: { f1: { inputs: {}, hotspotsClicked: { save: true } }, f2: { inputs: { city: 'Lyon' }, hotspotsClicked: {} } },
+    });
+    expect(scoreSubmission(loadedTest(), attempt).score).toBeLessThan(3);
+  });
+
+  it('refuses answers the events do not show', () => {
+    const attempt = submission({ events: events({ city: 'Lyon' }) });
+    expect(() => scoreSubmission(loadedTest(), attempt)).toThrow('do not match');
+  });
+
+  it('refuses a click on a wrong choice counted as correct', () => {
+    const forged = events().map(event => event.type === 'hotspot-click' ? { ...event, boxId: 'delete' } : event);
+    expect(() => scoreSubmission(loadedTest(), submission({ events: forged }))).toThrow('a wrong choice');
+  });
+
+  it('refuses an attempt that was never submitted', () => {
+    expect(() => scoreSubmission(loadedTest(), submission({ events: events().slice(0, -1) }))).toThrow('does not end');
+  });
+
+  it('refuses a reported time that does not fit the event times', () => {
+    expect(() => scoreSubmission(loadedTest(), submission({ time: 1 }))).toThrow('shorter');
+    expect(() => scoreSubmission(loadedTest(), submission({ time: 60 }))).toThrow('longer');
+  });
+
+  it('leaves out answers given after the test ran out of time', () => {
+    const entry = scoreSubmission(loadedTest({ timeLimitSeconds: 0 }), submission());
+    expect(entry).toMatchObject({ score: 1, time: 0 });
+  });
+
+  it('scores a frame as timed out when it is answered after its time ran out', () => {
+    const limitedFrames = [frames[0], { ...frames[1], timeLimitSeconds: 0 }];
+    const late = events().map(event =>
+      event.type === 'drag-end' ? { ...event, time: 4500 } : event.type === 'test-submit' ? { ...event, time: 5000 } : event);
+    const entry = scoreSubmission({ url: TEST_URL, manifest: { frames: [] }, frames: limitedFrames }, submission({ events: late, time: 5 }));
+    expect(entry.score).toBe(1);
+  });
+
+  it('only accepts seeds it issued for the candidate and test, for tests with sections', () => {
+    const test = loadedTest({ sections: [{ frames: ['f1', 'f2'] }] });
+    expect(() => scoreSubmission(test, submission())).toThrow('which frames');
+    expect(() => scoreSubmission(test, submission({ seed: '0123abcd' }))).toThrow('not chosen by this server');
+    expect(() => scoreSubmission(test, submission({ seed: issueSeed('https://example.com/other.zip', 'candidate@example.com') }))).toThrow('not chosen by this server');
+    expect(() => scoreSubmission(test, submission({ seed: issueSeed(TEST_URL, 'other@example.com') }))).toThrow('not chosen by this server');
+    expect(scoreSubmission(test, submission({ seed: issueSeed(TEST_URL, 'Candidate@Example.com') })).score).toBe(3);
+  });
+
+  it('gives up on answer patterns that backtrack badly', () => {
+    const slowFrames: FrameContent[] = [{
+      id: 'f1',
+      imageFileName: 'one.png',
+      boxes: [{ id: 'code', label: 'Code', type: BoxType.INPUT, x: 0, y: 0, w: 50, h: 10, expected: 'a', match: { pattern: '^(a+)+$' } }],
+    }];
+    const value = `${'a'.repeat(40)}!`;
+    const attempt: AttemptSubmission = {
+      email: 'candidate@example.com',
+      time: 1,
+      answers: { f1: { inputs: { code: value }, hotspotsClicked: {} } },
+      events: [
+        { type: 'test-start', time: 0, frameId: 'f1' },
+        { type: 'input-change', time: 500, frameId: 'f1', boxId: 'code', value },
+        { type: 'test-submit', time: 1000, frameId: 'f1' },
+      ],
+    };
+    expect(() => scoreSubmission({ url: TEST_URL, manifest: { frames: [] }, frames: slowFrames }, attempt)).toThrow('too long to check');
+  });
+});
@@ -0,0 +1,275 @@
+import { runInNewContext } from 'vm';
+import { AttemptSubmission, BoxType, DragBox, FrameBox, HotspotBox, LeaderboardEntry, MistakeKind, SessionEvent, UserAnswer } from '../../types';
+import { getVerdict, scoreAttempt } from '../../utils/scoring';
+import { FrameContent, isBranchingFlow, selectFrames } from '../../utils/testFlow';
+import { normalizeShortcut } from '../../utils/shortcuts';
+import { containsPoint } from '../../utils/geometry';
+import { summarizeIntegrity } from '../../utils/integrity';
+import { LoadedTest } from './testLoader';
+import { isIssuedSeed } from './attemptSeed';
+
+// A submission the results API will not record. `message` is meant to be shown to the candidate.
+export class SubmissionError extends Error {
+  constructor(message: string, public status = 422) {
+    super(message);
+    this.name = 'SubmissionError';
+  }
+}
+
+// Slack between the player's clock and the event times. A resume also drops
+// the part of a second not yet on the clock, which is allowed for on top.
+const CLOCK_TOLERANCE_SECONDS = 2;
+
+// Manifest answer patterns run against candidates' answers here, and a pattern
+// that backtracks badly could hold the route up, so scoring is cut off after this.
+const SCORING_TIMEOUT_MS = 1000;
+
+interface RebuiltAttempt {
+  answers: Record<string, UserAnswer>;
+  mistakes: Record<string, MistakeKind[]>;
+  timedOutFrames: Record<string, boolean>;
+  path: string[];
+  frameSeconds: Record<string, number>; // Time between entering and leaving each frame
+  activeSeconds: number; // Time the events show the test open, across resumes
+  spanSeconds: number; // Time from the first event to the last
+  resumes: number;
+  finished: boolean;
+}
+
+const isSequentialFrame = (frame: FrameContent) =>
+  frame.boxes.filter(box => box.type === BoxType.HOTSPOT && typeof box.order === 'number').length > 1;
+
+const findBox = (frame: FrameContent, boxId: unknown, types: BoxType[]): FrameBox => {
+  const box = frame.boxes.find(b => b.id === boxId);
+  if (!box || !types.includes(box.type)) {
+    throw new SubmissionError(`The session has an interaction with "${boxId}", which frame "${frame.id}" does not have.`);
+  }
+  return box;
+};
+
+const requireType = (value: unknown, type: 'string' | 'boolean' | 'number') => {
+  if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+    throw new SubmissionError('The session contains a malformed event.');
+  }
+};
+
+// Events that answer something or count as a mistake, which stop counting once time is up.
+const ANSWER_EVENTS = new Set<SessionEvent['type']>(['hotspot-click', 'background-click', 'input-change', 'checkbox-change', 'drag-end', 'shortcut']);
+
+/**
+ * Replays an attempt's events the way the player handled them, working out
+ * the answers, mistakes, timeouts and path that scoring needs. Throws for
+ * anything the player could not have recorded, such as a correct click on a
+ * distractor or an ordered hotspot clicked out of turn.
+ *
+ * With `limits`, answers given after the test's or their frame's time ran out
+ * are left out and the frame is scored as timed out. Browsers can hold the
+ * player's timers back in background tabs, so time running out is taken from
+ * the event times rather than from the player noticing it.
+ */
+const rebuildAttempt = (frames: FrameContent[], events: SessionEvent[], limits?: { testSeconds?: number }): RebuiltAttempt => {
+  if (events[0]?.type !== 'test-start') throw new SubmissionError('The session does not start with the start of the test.');
+
+  const byId = new Map(frames.map(frame => [frame.id, frame]));
+  const attempt: RebuiltAttempt = {
+    answers: {}, mistakes: {}, timedOutFrames: {}, path: [], frameSeconds: {},
+    activeSeconds: 0, spanSeconds: 0, resumes: -1, finished: false,
+  };
+  const answerFor = (frameId: string) => (attempt.answers[frameId] ??= { inputs: {}, hotspotsClicked: {} });
+  const addMistake = (frameId: string, kind: MistakeKind) => (attempt.mistakes[frameId] ??= []).push(kind);
+  const nextOrder: Record<string, number> = {};
+  let activeMs = 0;
+  let segmentStart = events[0].time;
+  let entered: { frameId: string, time: number } | null = null;
+
+  events.forEach((event, index) => {
+    if (index > 0 && event.time < events[index - 1].time) throw new SubmissionError('The session\'s events are out of order.');
+    const frame = byId.get(event.frameId);
+    if (!frame) throw new SubmissionError(`The session refers to frame "${event.frameId}", which this attempt was not served.`);
+
+    if (limits && ANSWER_EVENTS.has(event.type)) {
+      const testSeconds = (activeMs + event.time - segmentStart) / 1000;
+      if (limits.testSeconds !== undefined && testSeconds > limits.testSeconds + CLOCK_TOLERANCE_SECONDS) return;
+      const frameSeconds = (attempt.frameSeconds[frame.id] ?? 0) + (entered?.frameId === frame.id ? (event.time - entered.time) / 1000 : 0);
+      if (frame.timeLimitSeconds !== undefined && frameSeconds > frame.timeLimitSeconds + CLOCK_TOLERANCE_SECONDS) {
+        attempt.timedOutFrames[frame.id] = true;
+        return;
+      }
+    }
+
+    switch (event.type) {
+      case 'test-start':
+        // Each resume starts a new stretch of time; the gap before it does not count.
+        activeMs += (events[index - 1]?.time ?? event.time) - segmentStart;
+        segmentStart = event.time;
+        entered = null;
+        attempt.resumes++;
+        if (attempt.path.length === 0) attempt.path.push(frame.id);
+        break;
+      case 'frame-enter':
+        entered = { frameId: frame.id, time: event.time };
+        break;
+      case 'frame-leave':
+        if (entered?.frameId === frame.id) {
+          attempt.frameSeconds[frame.id] = (attempt.frameSeconds[frame.id] ?? 0) + (event.time - entered.time) / 1000;
+        }
+        entered = null;
+        break;
+      case 'navigate':
+        if (event.direction !== 'next') break;
+        if (!byId.has(event.toFrameId)) throw new SubmissionError(`The session moves to frame "${event.toFrameId}", which this attempt was not served.`);
+        attempt.path.push(event.toFrameId);
+        break;
+      case 'hotspot-click': {
+        requireType(event.correct, 'boolean');
+        const box = findBox(frame, event.boxId, [BoxType.HOTSPOT]) as HotspotBox;
+        if (!event.correct) {
+          addMistake(frame.id, 'hotspot');
+          break;
+        }
+        if (box.mistake) throw new SubmissionError(`The session counts a click on "${box.label}", a wrong choice, as correct.`);
+        if (isSequentialFrame(frame)) {
+          const expected = nextOrder[frame.id] ?? 1;
+          if (box.order !== expected) throw new SubmissionError(`The session counts "${box.label}" as clicked in order when it was not.`);
+          nextOrder[frame.id] = expected + 1;
+        }
+        answerFor(frame.id).hotspotsClicked[box.id] = true;
+        break;
+      }
+      case 'background-click':
+        // Background clicks only count on frames with something to click.
+        if (frame.boxes.some(box => box.type === BoxType.HOTSPOT)) addMistake(frame.id, 'background');
+        break;
+      case 'input-change':
+        requireType(event.value, 'string');
+        answerFor(frame.id).inputs[findBox(frame, event.boxId, [BoxType.INPUT, BoxType.SELECT]).id] = event.value;
+        break;
+      case 'checkbox-change': {
+        requireType(event.checked, 'boolean');
+        const answer = answerFor(frame.id);
+        answer.checked = { ...answer.checked, [findBox(frame, event.boxId, [BoxType.CHECKBOX]).id]: event.checked };
+        break;
+      }
+      case 'drag-end': {
+        requireType(event.x, 'number');
+        requireType(event.y, 'number');
+        const box = findBox(frame, event.boxId, [BoxType.DRAG]) as DragBox;
+        // Where the box was dropped decides, as in the player; the event's own verdict is not trusted.
+        if (!containsPoint(box.to, { x: event.x, y: event.y })) {
+          addMistake(frame.id, 'hotspot');
+          break;
+        }
+        const answer = answerFor(frame.id);
+        answer.completed = { ...answer.completed, [box.id]: true };
+        break;
+      }
+      case 'shortcut': {
+        if (event.boxId === null) {
+          addMistake(frame.id, 'hotspot');
+          break;
+        }
+        requireType(event.keys, 'string');
+        const box = findBox(frame, event.boxId, [BoxType.SHORTCUT]);
+        if (box.type === BoxType.SHORTCUT && normalizeShortcut(event.keys) !== normalizeShortcut(box.keys)) {
+          throw new SubmissionError(`The session counts ${event.keys} as the shortcut for "${box.label}", which it is not.`);
+        }
+        const answer = answerFor(frame.id);
+        answer.completed = { ...answer.completed, [box.id]: true };
+        break;
+      }
+      case 'time-expired':
+        if (event.scope === 'frame') attempt.timedOutFrames[frame.id] = true;
+        else attempt.finished = true;
+        break;
+      case 'test-submit':
+        attempt.finished = true;
+        break;
+      case 'hint-shown':
+      case 'frame-retry':
+        throw new SubmissionError('Practice attempts are not recorded.');
+    }
+  });
+
+  const last = events[events.length - 1].time;
+  attempt.activeSeconds = (activeMs + last - segmentStart) / 1000;
+  attempt.spanSeconds = (last - events[0].time) / 1000;
+  return attempt;
+};
+
+const sameAnswer = (frame: FrameContent, a: UserAnswer | undefined, b: UserAnswer | undefined): boolean =>
+  frame.boxes.every(box => {
+    switch (box.type) {
+      case BoxType.INPUT:
+      case BoxType.SELECT:
+        return (a?.inputs?.[box.id] ?? '') === (b?.inputs?.[box.id] ?? '');
+      case BoxType.HOTSPOT:
+        return !!a?.hotspotsClicked?.[box.id] === !!b?.hotspotsClicked?.[box.id];
+      case BoxType.CHECKBOX:
+        return !!a?.checked?.[box.id] === !!b?.checked?.[box.id];
+      default:
+        return !!a?.completed?.[box.id] === !!b?.completed?.[box.id];
+    }
+  });
+
+const withTimeout = <T>(work: () => T): T => {
+  try {
+    return runInNewContext('work()', { work }, { timeout: SCORING_TIMEOUT_MS });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new SubmissionError('The answers took too long to check against the test\'s answer patterns.');
+    }
+    throw err;
+  }
+};
+
+// Checks the player's clock against the event times. Time limits are not
+// checked here: answers given past them are left out of the score instead.
+const checkClock = (attempt: RebuiltAttempt, reportedTime: number) => {
+  const tolerance = CLOCK_TOLERANCE_SECONDS + attempt.resumes;
+  if (reportedTime < attempt.activeSeconds - tolerance) {
+    throw new SubmissionError('The reported time is shorter than the session\'s events show.');
+  }
+  if (reportedTime > attempt.spanSeconds + CLOCK_TOLERANCE_SECONDS) {
+    throw new SubmissionError('The reported time is longer than the session lasted.');
+  }
+};
+
+/**
+ * Scores a submitted attempt against the test as the server loaded it, with
+ * the scoring code the player uses, and returns the result to record. The
+ * answers are replayed from the events, and the submitted answers and time
+ * have to agree with them.
+ */
+export const scoreSubmission = (test: LoadedTest, submission: AttemptSubmission): LeaderboardEntry => {
+  const { manifest } = test;
+  if (manifest.sections) {
+    if (!submission.seed) throw new SubmissionError('The attempt does not say which frames it was served.');
+    if (!isIssuedSeed(test.url, submission.email, submission.seed)) {
+      throw new SubmissionError('The attempt\'s frames were not chosen by this server for this email address.');
+    }
+  }
+  const frames = selectFrames(test.frames, manifest.sections, submission.seed ?? '');
+
+  const attempt = rebuildAttempt(frames, submission.events);
+  if (!attempt.finished) throw new SubmissionError('The session does not end with the test being submitted.');
+  if (!frames.every(frame => sameAnswer(frame, attempt.answers[frame.id], submission.answers[frame.id]))) {
+    throw new SubmissionError('The submitted answers do not match the session\'s events.');
+  }
+  checkClock(attempt, submission.time);
+
+  const { timeLimitSeconds } = manifest;
+  const { answers, mistakes, timedOutFrames, path } = rebuildAttempt(frames, submission.events, { testSeconds: timeLimitSeconds });
+  const result = withTimeout(() =>
+    scoreAttempt(frames, { answers, mistakes, timedOutFrames, path: isBranchingFlow(frames) ? path : undefined }, manifest.scoring));
+  const verdict = getVerdict(result.score, result.totalPossible, manifest.passingScore);
+  return {
+    email: submission.email,
+    score: result.score,
+    totalPossible: result.totalPossible,
+    // The player's clock can run past the limit when the tab was in the background.
+    time: timeLimitSeconds !== undefined ? Math.min(submission.time, timeLimitSeconds) : submission.time,
+    timestamp: new Date().toISOString(),
+    passed: verdict?.passed,
+    integrity: manifest.integrity ? summarizeIntegrity(submission.events, manifest.integrity) : undefined,
+  };
+};
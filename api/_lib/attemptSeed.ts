@@ -0,0 +1,39 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Assessments of tests with sections are served frames chosen from a seed the
+// results API issues and signs for the candidate's email and the test. Only
+// the first seed issued for an email and test is ever handed out (see
+// `ResultStore.claimSeed`), so a candidate cannot shop for the seed that
+// serves the easiest frames. An issued seed reads "<random>.<signature>" and
+// the player uses it like any other seed.
+
+let instanceSecret: Buffer | null = null;
+
+const getSecret = (): string | Buffer => {
+  if (process.env.SEED_SECRET) return process.env.SEED_SECRET;
+  if (!instanceSecret) {
+    console.warn('SEED_SECRET is not set: seeds are signed with a key only this server instance knows.');
+    instanceSecret = randomBytes(32);
+  }
+  return instanceSecret;
+};
+
+// Emails are compared the way candidates type them in either case.
+export const normalizeSeedEmail = (email: string) => email.trim().toLowerCase();
+
+const sign = (testUrl: string, email: string, payload: string) =>
+  createHmac('sha256', getSecret()).update(`${testUrl}\n${normalizeSeedEmail(email)}\n${payload}`).digest('base64url');
+
+export const issueSeed = (testUrl: string, email: string): string => {
+  const payload = randomBytes(4).toString('hex');
+  return `${payload}.${sign(testUrl, email, payload)}`;
+};
+
+// Whether `seed` was issued here for `email` and the test at `testUrl`.
+export const isIssuedSeed = (testUrl: string, email: string, seed: string): boolean => {
+  const match = /^([0-9a-f]{8})\.([\w-]+)$/.exec(seed);
+  if (!match) return false;
+  const expected = Buffer.from(sign(testUrl, email, match[1]));
+  const actual = Buffer.from(match[2]);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,68 @@
+import { existsSync } from 'fs';
+import type { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// Adds the parts of Vercel's request and response helpers the routes in `api/` use.
+const toVercel = (req: IncomingMessage, res: ServerResponse, url: URL, body: string) => {
+  const query: Record<string, string | string[]> = {};
+  url.searchParams.forEach((_, key) => {
+    const values = url.searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  });
+  const vercelReq = Object.assign(req, { query, body: body || undefined, cookies: {} });
+  const vercelRes = Object.assign(res, {
+    status(code: number) {
+      res.statusCode = code;
+      return vercelRes;
+    },
+    json(data: unknown) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.end(JSON.stringify(data));
+      return vercelRes;
+    },
+    send(data: unknown) {
+      res.end(typeof data === 'string' || Buffer.isBuffer(data) ? data : JSON.stringify(data));
+      return vercelRes;
+    },
+  });
+  return { vercelReq, vercelRes };
+};
+
+/**
+ * Serves the routes in `api/` from the Vite dev server, so `npm run dev` has
+ * the leaderboard and file proxy without a separate backend. `/api/<name>`
+ * runs the default export of `api/<name>.ts`, reloaded when it changes.
+ */
+export const apiDevRoutes = (): Plugin => ({
+  name: 'api-dev-routes',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/api', async (req, res, next) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const name = url.pathname.replace(/^\/|\/$/g, '');
+      const file = path.join(server.config.root, 'api', `${name}.ts`);
+      if (!/^[a-z][a-z0-9-]*$/.test(name) || !existsSync(file)) {
+        next();
+        return;
+      }
+      try {
+        const body = req.method === 'GET' || req.method === 'HEAD' ? '' : await readBody(req);
+        const { default: handler } = await server.ssrLoadModule(`/api/${name}.ts`);
+        const { vercelReq, vercelRes } = toVercel(req, res, url, body);
+        await handler(vercelReq, vercelRes);
+      } catch (err) {
+        next(err);
+      }
+    });
+  },
+});
@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs, ReadStream, WriteStream } from 'fs';
+import path from 'path';
+import { ByteRange, Validators } from './httpConditions';
+
+const DEFAULT_CACHE_MAX_BYTES = 1024 * 1024 * 1024;
+const DEFAULT_CACHE_TTL_SECONDS = 3600;
+
+export interface CachedFile extends Validators {
+  url: string;
+  contentType: string;
+  size: number;
+  storedAt: number; // Epoch milliseconds of the last download or revalidation
+}
+
+// A download being written to the cache. Nothing is visible to readers until `commit`.
+export interface CacheWriter {
+  stream: WriteStream;
+  commit(size: number): Promise<void>;
+  discard(): Promise<void>;
+}
+
+/**
+ * Keeps recently proxied files on disk, keyed by URL. Entries younger than the
+ * TTL are served without contacting the file host; older ones are revalidated
+ * with their ETag or Last-Modified. The least recently used entries are
+ * removed once the cache grows past `maxBytes`.
+ */
+export class FileCache {
+  constructor(private dir: string, public maxBytes: number, private ttlMs: number) {}
+
+  private paths(url: string) {
+    const key = createHash('sha256').update(url).digest('hex');
+    return { data: path.join(this.dir, `${key}.bin`), meta: path.join(this.dir, `${key}.json`) };
+  }
+
+  async get(url: string): Promise<CachedFile | null> {
+    const { data, meta } = this.paths(url);
+    try {
+      const entry: CachedFile = JSON.parse(await fs.readFile(meta, 'utf8'));
+      if (entry.url !== url || (await fs.stat(data)).size !== entry.size) return null;
+      // The metadata file's modification time records the last use for eviction.
+      const now = new Date();
+      await fs.utimes(meta, now, now);
+      return entry;
+    } catch (err: any) {
+      if (err.code === 'ENOENT' || err instanceof SyntaxError) return null;
+      throw err;
+    }
+  }
+
+  isFresh(entry: CachedFile): boolean {
+    return Date.now() - entry.storedAt < this.ttlMs;
+  }
+
+  // Records that the file host confirmed the entry is still current.
+  async renew(entry: CachedFile): Promise<CachedFile> {
+    const renewed = { ...entry, storedAt: Date.now() };
+    await fs.writeFile(this.paths(entry.url).meta, JSON.stringify(renewed));
+    return renewed;
+  }
+
+  read(entry: CachedFile, range?: ByteRange): ReadStream {
+    return createReadStream(this.paths(entry.url).data, range);
+  }
+
+  async startWrite(url: string, info: Omit<CachedFile, 'url' | 'size' | 'storedAt'>): Promise<CacheWriter> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const { data, meta } = this.paths(url);
+    const tempPath = `${data}.${process.pid}.${Date.now()}.tmp`;
+    const stream = createWriteStream(tempPath);
+    const closed = new Promise<void>(resolve => stream.once('close', () => resolve()));
+    return {
+      stream,
+      commit: async (size: number) => {
+        await closed;
+        await fs.rename(tempPath, data);
+        const entry: CachedFile = { url, ...info, size, storedAt: Date.now() };
+        await fs.writeFile(meta, JSON.stringify(entry));
+        await this.evict();
+      },
+      discard: async () => {
+        stream.destroy();
+        await closed;
+        await fs.rm(tempPath, { force: true });
+      },
+    };
+  }
+
+  private async evict() {
+    const names = (await fs.readdir(this.dir)).filter(name => name.endsWith('.json'));
+    const entries = await Promise.all(names.map(async name => {
+      const meta = path.join(this.dir, name);
+      const data = meta.replace(/\.json$/, '.bin');
+      const [metaStat, dataStat] = await Promise.all([fs.stat(meta), fs.stat(data).catch(() => null)]);
+      return { meta, data, lastUsed: metaStat.mtimeMs, size: dataStat?.size ?? 0 };
+    }));
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break;
+      await Promise.all([fs.rm(entry.meta, { force: true }), fs.rm(entry.data, { force: true })]);
+      total -= entry.size;
+    }
+  }
+}
+
+let cache: FileCache | null | undefined;
+
+/**
+ * Returns the proxy's file cache, or null when `PROXY_CACHE_DIR` is not set.
+ * `PROXY_CACHE_MAX_BYTES` bounds its size and `PROXY_CACHE_TTL_SECONDS` sets
+ * how long entries are served without revalidation.
+ */
+export const getFileCache = (): FileCache | null => {
+  if (cache !== undefined) return cache;
+  const dir = process.env.PROXY_CACHE_DIR;
+  const maxBytes = Number(process.env.PROXY_CACHE_MAX_BYTES) || DEFAULT_CACHE_MAX_BYTES;
+  const ttlSeconds = Number(process.env.PROXY_CACHE_TTL_SECONDS || DEFAULT_CACHE_TTL_SECONDS);
+  cache = dir ? new FileCache(dir, maxBytes, (ttlSeconds >= 0 ? ttlSeconds : DEFAULT_CACHE_TTL_SECONDS) * 1000) : null;
+  return cache;
+};
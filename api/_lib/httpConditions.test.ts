@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ifRangeMatches, isNotModified, parseRange, Validators } from './httpConditions';
+
+const validators: Validators = { etag: '"abc"', lastModified: 'Tue, 01 Oct 2024 10:00:00 GMT' };
+
+describe('isNotModified', () => {
+  it('compares If-None-Match weakly against the ETag', () => {
+    expect(isNotModified({ 'if-none-match': '"abc"' }, validators)).toBe(true);
+    expect(isNotModified({ 'if-none-match': 'W/"abc"' }, validators)).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"x", "abc"' }, validators)).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"x"' }, validators)).toBe(false);
+    expect(isNotModified({ 'if-none-match': '*' }, validators)).toBe(true);
+  });
+
+  it('lets If-None-Match win over If-Modified-Since', () => {
+    expect(isNotModified({ 'if-none-match': '"x"', 'if-modified-since': 'Wed, 02 Oct 2024 10:00:00 GMT' }, validators)).toBe(false);
+  });
+
+  it('compares If-Modified-Since against the modification date', () => {
+    expect(isNotModified({ 'if-modified-since': 'Tue, 01 Oct 2024 10:00:00 GMT' }, validators)).toBe(true);
+    expect(isNotModified({ 'if-modified-since': 'Mon, 30 Sep 2024 10:00:00 GMT' }, validators)).toBe(false);
+    expect(isNotModified({ 'if-modified-since': 'not a date' }, validators)).toBe(false);
+    expect(isNotModified({}, validators)).toBe(false);
+  });
+});
+
+describe('ifRangeMatches', () => {
+  it('applies the range when If-Range is absent', () => {
+    expect(ifRangeMatches({}, validators)).toBe(true);
+  });
+
+  it('needs a strong ETag match', () => {
+    expect(ifRangeMatches({ 'if-range': '"abc"' }, validators)).toBe(true);
+    expect(ifRangeMatches({ 'if-range': 'W/"abc"' }, validators)).toBe(false);
+    expect(ifRangeMatches({ 'if-range': '"x"' }, validators)).toBe(false);
+  });
+
+  it('needs the exact modification date', () => {
+    expect(ifRangeMatches({ 'if-range': 'Tue, 01 Oct 2024 10:00:00 GMT' }, validators)).toBe(true);
+    expect(ifRangeMatches({ 'if-range': 'Wed, 02 Oct 2024 10:00:00 GMT' }, validators)).toBe(false);
+  });
+});
+
+describe('parseRange', () => {
+  it('reads start-end, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-99', 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange('bytes=900-', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('clamps the end and a long suffix to the file', () => {
+    expect(parseRange('bytes=500-5000', 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('sends the whole file for missing, multiple or malformed ranges', () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange('bytes=0-1,5-6', 1000)).toBeNull();
+    expect(parseRange('bytes=-', 1000)).toBeNull();
+    expect(parseRange('items=0-1', 1000)).toBeNull();
+    expect(parseRange('bytes=50-10', 1000)).toBeNull();
+  });
+
+  it('reports ranges past the end as unsatisfiable', () => {
+    expect(parseRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 1000)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-10', 0)).toBe('unsatisfiable');
+  });
+});
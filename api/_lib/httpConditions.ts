@@ -0,0 +1,58 @@
+import type { IncomingHttpHeaders } from 'http';
+
+// What a client can revalidate a file against.
+export interface Validators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+const parseDate = (value: string | null | undefined): number => (value ? Date.parse(value) : NaN);
+
+const etagsMatch = (a: string, b: string) => a.replace(/^W\//, '') === b.replace(/^W\//, '');
+
+// If-None-Match wins over If-Modified-Since, as in RFC 9110.
+export const isNotModified = (headers: IncomingHttpHeaders, validators: Validators): boolean => {
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true;
+    return !!validators.etag && ifNoneMatch.split(',').some(tag => etagsMatch(tag.trim(), validators.etag as string));
+  }
+  const since = parseDate(headers['if-modified-since']);
+  const modified = parseDate(validators.lastModified);
+  return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+};
+
+// A Range only applies if If-Range, when sent, still describes the stored file.
+export const ifRangeMatches = (headers: IncomingHttpHeaders, validators: Validators): boolean => {
+  const ifRange = headers['if-range'];
+  if (!ifRange) return true;
+  if (typeof ifRange !== 'string') return false;
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return !ifRange.startsWith('W/') && validators.etag === ifRange;
+  }
+  return parseDate(ifRange) === parseDate(validators.lastModified);
+};
+
+/**
+ * Reads a single `bytes=` range against a file of `size` bytes. Returns null
+ * when the whole file should be sent instead (no range, several ranges or a
+ * malformed header) and 'unsatisfiable' when the range lies past the end.
+ */
+export const parseRange = (header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null => {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+  if (match[1] === '') {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  if (start >= size) return 'unsatisfiable';
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  return end < start ? null : { start, end };
+};
@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LeaderboardEntry, VerifiedResult } from '../../types';
+
+// Storage for submitted results, keyed by test. Implementations must be safe
+// to call concurrently from the same process.
+export interface ResultStore {
+  addEntry(testId: string, entry: LeaderboardEntry): Promise<void>;
+  getEntries(testId: string): Promise<LeaderboardEntry[]>;
+  findByVerificationCode(code: string): Promise<VerifiedResult | null>;
+  // Keeps `seed` as the candidate's seed for the test unless one is kept already, and returns the kept one.
+  claimSeed(testId: string, email: string, seed: string): Promise<string>;
+}
+
+type StoreData = Record<string, LeaderboardEntry[]>;
+// Issued seeds by test, then by candidate email.
+type SeedData = Record<string, Record<string, string>>;
+
+const findInData = (data: StoreData, code: string): VerifiedResult | null => {
+  for (const [testUrl, entries] of Object.entries(data)) {
+    const entry = entries.find(e => e.verificationCode === code);
+    if (entry) return { ...entry, testUrl };
+  }
+  return null;
+};
+
+export class MemoryResultStore implements ResultStore {
+  private data: StoreData = {};
+  private seeds: SeedData = {};
+
+  async addEntry(testId: string, entry: LeaderboardEntry) {
+    this.data[testId] = [...(this.data[testId] || []), entry];
+  }
+
+  async getEntries(testId: string) {
+    return this.data[testId] || [];
+  }
+
+  async findByVerificationCode(code: string) {
+    return findInData(this.data, code);
+  }
+
+  async claimSeed(testId: string, email: string, seed: string) {
+    return ((this.seeds[testId] ??= {})[email] ??= seed);
+  }
+}
+
+// Keeps every result in a single JSON file, and issued seeds in a second one
+// beside it. Writes go through a temporary file and a rename so a crash never
+// leaves a half-written store behind.
+export class JsonFileResultStore implements ResultStore {
+  private queue: Promise<unknown> = Promise.resolve();
+  private seedsPath: string;
+
+  constructor(private filePath: string) {
+    this.seedsPath = filePath.replace(/(\.json)?$/, '.seeds.json');
+  }
+
+  private async read<T = StoreData>(filePath = this.filePath): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return {} as T;
+      throw err;
+    }
+  }
+
+  private async write(data: StoreData | SeedData, filePath = this.filePath) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
+  // Serializes read-modify-write cycles so concurrent submissions are not lost.
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  addEntry(testId: string, entry: LeaderboardEntry) {
+    return this.enqueue(async () => {
+      const data = await this.read();
+      data[testId] = [...(data[testId] || []), entry];
+      await this.write(data);
+    });
+  }
+
+  getEntries(testId: string) {
+    return this.enqueue(async () => (await this.read())[testId] || []);
+  }
+
+  findByVerificationCode(code: string) {
+    return this.enqueue(async () => findInData(await this.read(), code));
+  }
+
+  claimSeed(testId: string, email: string, seed: string) {
+    return this.enqueue(async () => {
+      const seeds = await this.read<SeedData>(this.seedsPath);
+      const kept = seeds[testId]?.[email];
+      if (kept) return kept;
+      seeds[testId] = { ...seeds[testId], [email]: seed };
+      await this.write(seeds, this.seedsPath);
+      return seed;
+    });
+  }
+}
+
+let store: ResultStore | null = null;
+
+/**
+ * Returns the configured result store. `RESULTS_STORE` selects the backend
+ * ("json" by default, or "memory"); `RESULTS_STORE_PATH` sets the JSON file,
+ * and issued seeds are kept next to it in `<name>.seeds.json`.
+ */
+export const getResultStore = (): ResultStore => {
+  if (store) return store;
+  const kind = process.env.RESULTS_STORE || 'json';
+  if (kind === 'memory') {
+    store = new MemoryResultStore();
+  } else if (kind === 'json') {
+    store = new JsonFileResultStore(process.env.RESULTS_STORE_PATH || path.join(process.cwd(), '.data', 'results.json'));
+  } else {
+    throw new Error(`Unknown RESULTS_STORE "${kind}". Use "json" or "memory".`);
+  }
+  return store;
+};
+
+// Replaces the store, e.g. to plug in a database-backed implementation.
+export const setResultStore = (custom: ResultStore) => {
+  store = custom;
+};
+
+// Best score first; ties are broken by the faster time, then by the earlier submission.
+export const rankEntries = (entries: LeaderboardEntry[]): LeaderboardEntry[] =>
+  [...entries].sort((a, b) =>
+    b.score - a.score ||
+    a.time - b.time ||
+    a.timestamp.localeCompare(b.timestamp)
+  );
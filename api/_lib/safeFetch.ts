@@ -0,0 +1,156 @@
+import dns from 'dns';
+import http, { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+import net from 'net';
+
+// A request the proxy refuses or cannot complete. `code` is a stable identifier
+// the client can switch on; `message` is meant to be shown to the user.
+export class ProxyError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+export interface ProxyConfig {
+  allowedHosts: string[]; // Empty allows any public host
+  maxBytes: number;
+  timeoutMs: number;
+  maxRedirects: number;
+}
+
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Values below `min` fall back too: a timeout or byte limit of 0 would refuse every request without saying why.
+export const readInteger = (value: string | undefined, fallback: number, min = 1): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/**
+ * Reads the proxy limits from the environment: `PROXY_ALLOWED_HOSTS` (comma
+ * separated; a host also allows its subdomains), `PROXY_MAX_BYTES`,
+ * `PROXY_TIMEOUT_MS` and `PROXY_MAX_REDIRECTS`.
+ */
+export const getProxyConfig = (): ProxyConfig => ({
+  allowedHosts: (process.env.PROXY_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase().replace(/^\*?\./, ''))
+    .filter(Boolean),
+  maxBytes: readInteger(process.env.PROXY_MAX_BYTES, DEFAULT_MAX_BYTES),
+  timeoutMs: readInteger(process.env.PROXY_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+  maxRedirects: readInteger(process.env.PROXY_MAX_REDIRECTS, DEFAULT_MAX_REDIRECTS, 0),
+});
+
+// Addresses that are not on the public internet: loopback, private, shared,
+// link-local (including cloud metadata endpoints), multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 rules. NAT64 and
+// 6to4 addresses embed an IPv4 address that translating networks deliver to,
+// so those ranges are refused outright.
+const blockedRanges = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const).forEach(([network, prefix]) => blockedRanges.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const).forEach(([network, prefix]) => blockedRanges.addSubnet(network, prefix, 'ipv6'));
+
+export const isBlockedAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockedRanges.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+export const isHostAllowed = (hostname: string, allowedHosts: string[]): boolean =>
+  allowedHosts.length === 0 || allowedHosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+
+const checkUrl = (url: URL, config: ProxyConfig) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ProxyError(400, 'unsupported_scheme', `Only http and https URLs can be fetched, not ${url.protocol.replace(/:$/, '')}.`);
+  }
+  if (url.username || url.password) {
+    throw new ProxyError(400, 'credentials_in_url', 'URLs with a user name or password cannot be fetched.');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!isHostAllowed(hostname, config.allowedHosts)) {
+    throw new ProxyError(403, 'host_not_allowed', `Files from ${hostname} cannot be fetched through this server.`);
+  }
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new ProxyError(403, 'address_blocked', `${hostname} is not a public address.`);
+  }
+};
+
+// Resolves host names for outgoing sockets and refuses any that point at a
+// non-public address. Checking here rather than before the request means the
+// address that was checked is the one connected to, so DNS rebinding cannot
+// swap in an internal address between the check and the connection.
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      callback(new ProxyError(403, 'address_blocked', `${hostname} does not resolve to a public address.`), '', 0);
+      return;
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Parses `rawUrl` and checks it against the proxy's rules without fetching it,
+ * so files cached from a URL stop being served once the rules refuse it.
+ */
+export const checkTarget = (rawUrl: string, config: ProxyConfig): URL => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ProxyError(400, 'invalid_url', 'The url parameter is not a valid absolute URL.');
+  }
+  checkUrl(url, config);
+  return url;
+};
+
+const request = (url: URL, signal: AbortSignal, headers: OutgoingHttpHeaders): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, { lookup: guardedLookup, signal, headers: { accept: '*/*', ...headers } }, resolve);
+    req.on('error', reject);
+  });
+
+const isRedirect = (status: number) => [301, 302, 303, 307, 308].includes(status);
+
+/**
+ * Opens `rawUrl` under the proxy's rules, following at most
+ * `config.maxRedirects` redirects and checking every hop. `headers` are sent
+ * on every hop. The returned response has not been read yet; `signal` keeps
+ * applying while it is.
+ */
+export const openUpstream = async (
+  rawUrl: string,
+  config: ProxyConfig,
+  signal: AbortSignal,
+  headers: OutgoingHttpHeaders = {}
+): Promise<IncomingMessage> => {
+  let url = checkTarget(rawUrl, config);
+  for (let redirects = 0; ; redirects++) {
+    if (redirects > 0) checkUrl(url, config);
+    const response = await request(url, signal, headers);
+    const location = response.headers.location;
+    if (!isRedirect(response.statusCode ?? 0) || !location) return response;
+
+    response.resume();
+    if (redirects >= config.maxRedirects) {
+      throw new ProxyError(502, 'too_many_redirects', `The file host redirected more than ${config.maxRedirects} times.`);
+    }
+    url = new URL(location, url);
+  }
+};
@@ -0,0 +1,118 @@
+import type { IncomingMessage } from 'http';
+import { gunzipSync } from 'zlib';
+import { Manifest } from '../../types';
+import { openPackageFile, readManifest, TestPackage } from '../../utils/testPackage';
+import { isTarHeader } from '../../utils/tarArchive';
+import { resolveShareLink } from '../../utils/linkResolver';
+import { buildFrameContent, FrameContent, resolveSections } from '../../utils/testFlow';
+import { getProxyConfig, openUpstream, ProxyError, readInteger } from './safeFetch';
+import { readZip } from './zipArchive';
+
+// A test as the results API scores it: the manifest and its frames as the player builds them.
+export interface LoadedTest {
+  url: string;
+  manifest: Manifest;
+  frames: FrameContent[];
+}
+
+// Submissions tend to arrive together (a class finishing a test), so a loaded test is reused for a while.
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_TESTS = 20;
+
+// Scoring holds the whole package in memory, so it downloads far less than the
+// file proxy streams. `SCORING_MAX_BYTES` raises this for tests with large images.
+const DEFAULT_SCORING_MAX_BYTES = 25 * 1024 * 1024;
+
+const cache = new Map<string, { test: Promise<LoadedTest>, loadedAt: number }>();
+
+const readBody = (response: IncomingMessage, maxBytes: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    response.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        response.destroy(new ProxyError(413, 'too_large', `The test package is larger than the ${maxBytes} byte limit.`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+  });
+
+const scoringMaxBytes = () => Math.min(getProxyConfig().maxBytes, readInteger(process.env.SCORING_MAX_BYTES, DEFAULT_SCORING_MAX_BYTES));
+
+// Downloads a test package under the file proxy's rules, so the results API cannot be pointed at internal hosts.
+const download = async (testUrl: string): Promise<Buffer> => {
+  const config = getProxyConfig();
+  const signal = AbortSignal.timeout(config.timeoutMs);
+  const response = await openUpstream(resolveShareLink(testUrl).url, config, signal);
+  if (response.statusCode !== 200) {
+    response.resume();
+    throw new ProxyError(502, 'upstream_status', `The file host answered ${response.statusCode} ${response.statusMessage ?? ''}`.trim() + '.');
+  }
+  if (response.headers['content-type']?.includes('html')) {
+    response.resume();
+    throw new ProxyError(502, 'not_a_package', 'The test link leads to a web page rather than a test package.');
+  }
+  return readBody(response, scoringMaxBytes());
+};
+
+// A .tar.gz unpacks under the same limit as the download, so a small gzip bomb cannot fill the server's memory.
+const gunzip = (data: Buffer): Buffer => {
+  const maxBytes = scoringMaxBytes();
+  try {
+    return gunzipSync(data, { maxOutputLength: maxBytes });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new ProxyError(413, 'too_large', `The test package unpacks to more than the ${maxBytes} byte limit.`);
+    }
+    throw err;
+  }
+};
+
+const openPackage = async (data: Buffer): Promise<TestPackage> => {
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    // Unpacked here rather than by the player's DecompressionStream, which has no limit.
+    const archive = gunzip(data);
+    if (!isTarHeader(archive.subarray(0, 512))) {
+      throw new Error('This gzip file does not contain a tar archive. Test packages can be .zip, .tar.gz or .json files.');
+    }
+    return openPackageFile(new Blob([archive]));
+  }
+  const source = new Blob([data]);
+  if (data[0] === 0x50 && data[1] === 0x4b) {
+    const files = readZip(data).map(entry => ({
+      path: entry.path,
+      read: async () => new Blob([entry.read()]),
+      readPrefix: async () => new Uint8Array(entry.read()),
+    }));
+    return { files, source };
+  }
+  return openPackageFile(source);
+};
+
+const load = async (testUrl: string): Promise<LoadedTest> => {
+  const manifest = await readManifest(await openPackage(await download(testUrl)));
+  return {
+    url: testUrl,
+    manifest: { ...manifest, sections: resolveSections(manifest.frames, manifest.sections) },
+    frames: manifest.frames.map((_frame, index) => buildFrameContent(manifest.frames, index)),
+  };
+};
+
+/**
+ * Loads the test at `testUrl` the way the player does, from the same link.
+ * Images are not read: scoring only needs the manifest.
+ */
+export const loadTest = (testUrl: string): Promise<LoadedTest> => {
+  const cached = cache.get(testUrl);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.test;
+
+  const test = load(testUrl);
+  cache.set(testUrl, { test, loadedAt: Date.now() });
+  test.catch(() => cache.delete(testUrl));
+  if (cache.size > MAX_CACHED_TESTS) cache.delete(cache.keys().next().value as string);
+  return test;
+};
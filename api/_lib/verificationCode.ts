@@ -0,0 +1,23 @@
+import { randomBytes } from 'crypto';
+
+// Crockford's base32 leaves out I, L, O and U, so codes read back over the phone or from a printout survive.
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 12;
+const GROUP_LENGTH = 4;
+
+const group = (code: string) => code.match(new RegExp(`.{1,${GROUP_LENGTH}}`, 'g'))!.join('-');
+
+// A new random code such as "7KQ2-M9XD-04TR", 60 bits of randomness.
+export const createVerificationCode = (): string =>
+  group(Array.from(randomBytes(CODE_LENGTH), byte => ALPHABET[byte % ALPHABET.length]).join(''));
+
+/**
+ * Brings a code typed by a person into the issued form: case, spaces and
+ * dashes are ignored and the letters Crockford's base32 reads as digits are
+ * mapped to them. Returns null if it cannot be a code.
+ */
+export const normalizeVerificationCode = (input: string): string | null => {
+  const code = input.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  if (code.length !== CODE_LENGTH || [...code].some(char => !ALPHABET.includes(char))) return null;
+  return group(code);
+};
@@ -0,0 +1,88 @@
+import { inflateRawSync } from 'zlib';
+import { ProxyError } from './safeFetch';
+
+// Reads the files out of a ZIP archive on the server, where the JSZip build the
+// player loads from a CDN is not available. Entries are inflated when read.
+
+export interface ZipEntry {
+  path: string;
+  read(): Buffer;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes, followed by a comment of up to 64 KB.
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Test files are small; a file that inflates past this is taken for a ZIP bomb.
+const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+const damaged = (detail: string) => new Error(`The ZIP archive is damaged: ${detail}.`);
+
+const inflate = (data: Buffer, path: string): Buffer => {
+  try {
+    return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new ProxyError(413, 'too_large', `"${path}" unpacks to more than the ${MAX_ENTRY_BYTES} byte limit.`);
+    }
+    throw err;
+  }
+};
+
+const findEndRecord = (archive: Buffer): number => {
+  const stop = Math.max(0, archive.length - MAX_END_RECORD_SEARCH);
+  for (let offset = archive.length - 22; offset >= stop; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw damaged('no central directory');
+};
+
+/**
+ * Lists the files of a ZIP archive from its central directory. Directories
+ * are left out; ZIP64 archives and compression methods other than store and
+ * deflate are refused, as is a file that unpacks to more than 32 MB.
+ */
+export const readZip = (archive: Buffer): ZipEntry[] => {
+  const end = findEndRecord(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported. Save the test package as a regular ZIP file.');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw damaged(`no directory entry at byte ${offset}`);
+    }
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const path = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (path.endsWith('/')) continue;
+
+    entries.push({
+      path,
+      read: () => {
+        if (archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw damaged(`no file header for "${path}"`);
+        // The local header repeats the name but may carry a different extra field.
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+        if (method === STORED) return data;
+        if (method === DEFLATED) return inflate(data, path);
+        throw new Error(`"${path}" uses a ZIP compression method that is not supported (${method}).`);
+      },
+    });
+  }
+  return entries;
+};
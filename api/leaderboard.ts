@@ -0,0 +1,96 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { AttemptSubmission } from '../types';
+import { getResultStore, rankEntries } from './_lib/resultStore';
+import { createVerificationCode } from './_lib/verificationCode';
+import { loadTest } from './_lib/testLoader';
+import { ProxyError } from './_lib/safeFetch';
+import { scoreSubmission, SubmissionError } from './_lib/attemptScoring';
+
+const DEFAULT_LIMIT = 50;
+
+// Listings are public, so they show "ali***@example.com" rather than the address.
+const maskEmail = (email: string): string => {
+  const [name, domain] = email.split('@');
+  if (!name || !domain) return 'Anonymous';
+  if (name.length <= 3) return `${name[0]}***@${domain}`;
+  return `${name.substring(0, 3)}***@${domain}`;
+};
+
+// The shape of a submission; whether its contents hold up is for `scoreSubmission` to check.
+const isAttemptSubmission = (value: any): value is AttemptSubmission =>
+  typeof value === 'object' && value !== null &&
+  typeof value.email === 'string' && value.email.includes('@') &&
+  Number.isFinite(value.time) && value.time >= 0 &&
+  (value.seed === undefined || typeof value.seed === 'string') &&
+  typeof value.answers === 'object' && value.answers !== null &&
+  Array.isArray(value.events) && value.events.length > 0 &&
+  value.events.every((event: any) =>
+    typeof event === 'object' && event !== null &&
+    typeof event.type === 'string' && Number.isFinite(event.time) && typeof event.frameId === 'string'
+  );
+
+// GET /api/leaderboard?testUrl=...&limit=... returns the ranked entries for a test.
+// POST /api/leaderboard with { testUrl, attempt } scores a finished attempt
+// against the test at testUrl, records the result and answers with it,
+// including the verification code issued for it. Scores are never taken from
+// the player: they are worked out again here from the attempt's events.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method === 'GET') {
+      const testUrl = req.query.testUrl as string;
+      if (!testUrl) {
+        res.status(400).json({ success: false, message: 'Missing testUrl parameter' });
+        return;
+      }
+      const limit = Math.max(1, Math.min(Number(req.query.limit) || DEFAULT_LIMIT, 500));
+      const entries = await getResultStore().getEntries(testUrl);
+      // Verification codes are only for the candidate's certificate, and integrity summaries for whoever checks it.
+      const listed = rankEntries(entries).slice(0, limit)
+        .map(({ verificationCode: _code, integrity: _integrity, ...entry }) => ({ ...entry, email: maskEmail(entry.email) }));
+      res.status(200).json({ success: true, data: listed });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let body;
+      try {
+        body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+      } catch {
+        res.status(400).json({ success: false, message: 'The request body is not valid JSON' });
+        return;
+      }
+      const testUrl = body?.testUrl;
+      const attempt = body?.attempt;
+      if (typeof testUrl !== 'string' || !testUrl) {
+        res.status(400).json({ success: false, message: 'Missing testUrl' });
+        return;
+      }
+      if (!isAttemptSubmission(attempt)) {
+        res.status(400).json({ success: false, message: 'Invalid attempt submission' });
+        return;
+      }
+      let test;
+      try {
+        test = await loadTest(testUrl);
+      } catch (err: any) {
+        console.error('Test loading error:', err);
+        res.status(err instanceof ProxyError ? err.status : 502).json({ success: false, message: `The test could not be loaded to check the result: ${err.message}` });
+        return;
+      }
+      const entry = { ...scoreSubmission(test, attempt), verificationCode: createVerificationCode() };
+      await getResultStore().addEntry(testUrl, entry);
+      res.status(201).json({ success: true, data: entry });
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ success: false, message: 'Method not allowed' });
+  } catch (err: any) {
+    if (err instanceof SubmissionError) {
+      res.status(err.status).json({ success: false, message: `This result was not recorded. ${err.message}` });
+      return;
+    }
+    console.error('Leaderboard error:', err);
+    res.status(500).json({ success: false, message: `Leaderboard error: ${err.message}` });
+  }
+}
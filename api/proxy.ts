@@ -1,28 +1,170 @@
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  console.log("Proxy hit:", req.query.url);
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import { pipeline } from 'stream/promises';
+import { CachedFile, FileCache, getFileCache } from './_lib/fileCache';
+import { ifRangeMatches, isNotModified, parseRange } from './_lib/httpConditions';
+import { checkTarget, getProxyConfig, openUpstream, ProxyConfig, ProxyError } from './_lib/safeFetch';
+
+// Request headers passed on to the file host so it can answer 304 or 206 itself.
+const FORWARDED_REQUEST_HEADERS = ['if-none-match', 'if-modified-since', 'range', 'if-range'];
+
+// Response headers passed back to the browser.
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'etag', 'last-modified'];
+
+// Browsers may keep the file but must check it is current before reusing it.
+const CACHE_CONTROL = 'no-cache';
+
+// Failures before any of the file has been sent are answered with
+// { success: false, code, message }; later ones can only cut the response short.
+const sendError = (res: VercelResponse, err: ProxyError) => {
+  res.status(err.status).json({ success: false, code: err.code, message: err.message });
+};
 
-  const targetUrl = req.query.url as string;
-  if (!targetUrl) {
-    res.status(400).send('Missing url parameter');
+const tooLarge = (limit: number) => new ProxyError(413, 'too_large', `The file is larger than the ${limit} byte limit.`);
+
+const pickHeaders = (headers: IncomingMessage['headers'], names: string[]): OutgoingHttpHeaders =>
+  Object.fromEntries(names.filter(name => headers[name] !== undefined).map(name => [name, headers[name]]));
+
+// Answers from a cached copy, honouring the browser's own conditional and Range headers.
+const sendCached = async (req: VercelRequest, res: VercelResponse, cache: FileCache, entry: CachedFile) => {
+  res.setHeader('Content-Type', entry.contentType);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  res.setHeader('X-Proxy-Cache', 'HIT');
+  if (entry.etag) res.setHeader('ETag', entry.etag);
+  if (entry.lastModified) res.setHeader('Last-Modified', entry.lastModified);
+
+  if (isNotModified(req.headers, entry)) {
+    res.status(304).end();
+    return;
+  }
+  const range = ifRangeMatches(req.headers, entry) ? parseRange(req.headers.range, entry.size) : null;
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${entry.size}`);
+    sendError(res, new ProxyError(416, 'range_not_satisfiable', `The file is only ${entry.size} bytes long.`));
+    return;
+  }
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${entry.size}`);
+    res.setHeader('Content-Length', String(range.end - range.start + 1));
+    await pipeline(cache.read(entry, range), res);
+  } else {
+    res.status(200);
+    res.setHeader('Content-Length', String(entry.size));
+    await pipeline(cache.read(entry), res);
+  }
+};
+
+// Streams an upstream response to the browser, storing complete 200 responses in the cache when there is one.
+const sendUpstream = async (res: VercelResponse, upstream: IncomingMessage, config: ProxyConfig, cache: FileCache | null, targetUrl: string) => {
+  const status = upstream.statusCode ?? 502;
+  if (status === 304) {
+    upstream.resume();
+    Object.entries(pickHeaders(upstream.headers, ['etag', 'last-modified'])).forEach(([name, value]) => res.setHeader(name, value as string));
+    res.setHeader('Cache-Control', CACHE_CONTROL);
+    res.status(304).end();
+    return;
+  }
+  if (status !== 200 && status !== 206) {
+    upstream.resume();
+    throw new ProxyError(status, 'upstream_status', `The file host answered ${status} ${upstream.statusMessage ?? ''}`.trim() + '.');
+  }
+
+  const declaredLength = Number(upstream.headers['content-length']);
+  if (declaredLength > config.maxBytes) {
+    upstream.destroy();
+    throw tooLarge(config.maxBytes);
+  }
+
+  const writer = cache && status === 200 && !(declaredLength > cache.maxBytes)
+    ? await cache.startWrite(targetUrl, {
+      contentType: upstream.headers['content-type'] || 'application/octet-stream',
+      etag: upstream.headers.etag ?? null,
+      lastModified: upstream.headers['last-modified'] ?? null,
+    })
+    : null;
+
+  // Content-Length can be missing or wrong, so the limit is also enforced while streaming.
+  let received = 0;
+  upstream.on('data', (chunk: Buffer) => {
+    received += chunk.length;
+    if (received > config.maxBytes) upstream.destroy(tooLarge(config.maxBytes));
+  });
+
+  res.status(status);
+  Object.entries(pickHeaders(upstream.headers, FORWARDED_RESPONSE_HEADERS)).forEach(([name, value]) => res.setHeader(name, value as string));
+  if (!upstream.headers['content-type']) res.setHeader('Content-Type', 'application/octet-stream');
+  res.setHeader('Cache-Control', CACHE_CONTROL);
+  if (cache) res.setHeader('X-Proxy-Cache', 'MISS');
+
+  if (!writer) {
+    await pipeline(upstream, res);
     return;
   }
-  
   try {
-    const response = await fetch(targetUrl);
-    console.log("Fetched from target:", targetUrl, "status:", response.status);
+    await Promise.all([pipeline(upstream, res), pipeline(upstream, writer.stream)]);
+  } catch (err) {
+    await writer.discard();
+    throw err;
+  }
+  if (received <= (cache as FileCache).maxBytes) await writer.commit(received);
+  else await writer.discard();
+};
+
+// GET /api/proxy?url=... streams a publicly reachable file back to the browser,
+// which cannot fetch most file hosts itself because of CORS. ETags, conditional
+// requests and Range requests are passed through; with PROXY_CACHE_DIR set,
+// recent files are also served from a local cache.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    sendError(res, new ProxyError(405, 'method_not_allowed', 'Method not allowed'));
+    return;
+  }
+  const targetUrl = req.query.url;
+  if (typeof targetUrl !== 'string' || !targetUrl) {
+    sendError(res, new ProxyError(400, 'missing_url', 'Missing url parameter'));
+    return;
+  }
 
-    if (!response.ok) {
-      res.status(response.status).send(`Failed to fetch target file: ${response.statusText}`);
+  const config = getProxyConfig();
+  const cache = getFileCache();
+  const signal = AbortSignal.timeout(config.timeoutMs);
+  try {
+    // Checked before the cache too, so tightening PROXY_ALLOWED_HOSTS also stops files cached earlier.
+    checkTarget(targetUrl, config);
+    let upstream: IncomingMessage | null = null;
+    let entry = cache ? await cache.get(targetUrl) : null;
+    if (cache && entry && !cache.isFresh(entry)) {
+      const validators: OutgoingHttpHeaders = {};
+      if (entry.etag) validators['if-none-match'] = entry.etag;
+      if (entry.lastModified) validators['if-modified-since'] = entry.lastModified;
+      upstream = await openUpstream(targetUrl, config, signal, validators);
+      if (upstream.statusCode === 304) {
+        upstream.resume();
+        upstream = null;
+        entry = await cache.renew(entry);
+      } else {
+        entry = null;
+      }
+    }
+    if (cache && entry) {
+      await sendCached(req, res, cache, entry);
       return;
     }
 
-    res.setHeader(
-      'Content-Type',
-      response.headers.get('content-type') || 'application/octet-stream'
-    );
-    response.body.pipe(res);
+    upstream ??= await openUpstream(targetUrl, config, signal, pickHeaders(req.headers, FORWARDED_REQUEST_HEADERS));
+    await sendUpstream(res, upstream, config, cache, targetUrl);
   } catch (err: any) {
-    console.error("Proxy error:", err);
-    res.status(500).send(`Proxy error: ${err.message}`);
+    const error = err instanceof ProxyError ? err
+      : signal.aborted ? new ProxyError(504, 'upstream_timeout', `The file host did not finish within ${config.timeoutMs / 1000} seconds.`)
+      : new ProxyError(502, 'upstream_unreachable', `Could not fetch the file: ${err.message}`);
+    console.error('Proxy error:', error.code, err);
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      sendError(res, error);
+    }
   }
 }
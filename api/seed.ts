@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getResultStore } from './_lib/resultStore';
+import { issueSeed, normalizeSeedEmail } from './_lib/attemptSeed';
+
+// POST /api/seed with { testUrl, email } returns the signed seed the
+// candidate's assessments of a test with sections are served from. The first
+// seed issued for an email and test is kept and returned every time after, and
+// the leaderboard only records attempts served from it.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    res.status(405).json({ success: false, message: 'Method not allowed' });
+    return;
+  }
+  let body;
+  try {
+    body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  } catch {
+    res.status(400).json({ success: false, message: 'The request body is not valid JSON' });
+    return;
+  }
+  const testUrl = body?.testUrl;
+  const email = body?.email;
+  if (typeof testUrl !== 'string' || !testUrl) {
+    res.status(400).json({ success: false, message: 'Missing testUrl' });
+    return;
+  }
+  if (typeof email !== 'string' || !email.includes('@')) {
+    res.status(400).json({ success: false, message: 'Missing email' });
+    return;
+  }
+  try {
+    const seed = await getResultStore().claimSeed(testUrl, normalizeSeedEmail(email), issueSeed(testUrl, email));
+    res.status(200).json({ success: true, data: { seed } });
+  } catch (err: any) {
+    console.error('Seed error:', err);
+    res.status(500).json({ success: false, message: `Seed error: ${err.message}` });
+  }
+}
@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { loadTest } from './_lib/testLoader';
+
+const DEFAULT_TITLE = 'EvaluationLab test';
+const DEFAULT_DESCRIPTION = 'Take this interactive test in your browser.';
+
+// Link previews cut text off anyway; the limits keep long manifest texts from producing huge pages.
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+const readText = (value: unknown, maxLength: number): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : null;
+
+// GET /api/share?testUrl=... is the link the player shares. Chat apps and
+// social networks build link previews from meta tags without running scripts,
+// so this serves a page carrying the test's title and description and sends
+// browsers straight on to the player. The texts are read from the test's own
+// manifest, never from the link, so the page cannot be made to say anything else.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', 'GET, HEAD');
+    res.status(405).json({ success: false, message: 'Method not allowed' });
+    return;
+  }
+  const testUrl = req.query.testUrl;
+  if (typeof testUrl !== 'string' || !testUrl) {
+    res.status(400).json({ success: false, message: 'Missing testUrl parameter' });
+    return;
+  }
+
+  // A test that cannot be loaded still forwards to the player, which explains what went wrong.
+  const manifest = await loadTest(testUrl).then(test => test.manifest, err => {
+    console.warn('Share preview could not load the test:', err);
+    return null;
+  });
+  const title = escapeHtml(readText(manifest?.title, MAX_TITLE_LENGTH) ?? DEFAULT_TITLE);
+  const description = escapeHtml(readText(manifest?.description, MAX_DESCRIPTION_LENGTH) ?? DEFAULT_DESCRIPTION);
+  const protocol = req.headers['x-forwarded-proto'] === 'https' ? 'https' : 'http';
+  const playerUrl = escapeHtml(`${protocol}://${req.headers.host}/?testUrl=${encodeURIComponent(testUrl)}`);
+
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  res.status(200).send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${title}</title>
+<meta name="description" content="${description}">
+<meta property="og:type" content="website">
+<meta property="og:title" content="${title}">
+<meta property="og:description" content="${description}">
+<meta property="og:url" content="${playerUrl}">
+<meta name="twitter:card" content="summary">
+<meta name="twitter:title" content="${title}">
+<meta name="twitter:description" content="${description}">
+<meta http-equiv="refresh" content="0; url=${playerUrl}">
+</head>
+<body>
+<p><a href="${playerUrl}">Open ${title}</a></p>
+</body>
+</html>
+`);
+}
@@ -0,0 +1,29 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getResultStore } from './_lib/resultStore';
+import { normalizeVerificationCode } from './_lib/verificationCode';
+
+// GET /api/verify?code=... returns the stored result a certificate's
+// verification code was issued for, so the certificate can be checked against it.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    res.status(405).json({ success: false, message: 'Method not allowed' });
+    return;
+  }
+  const code = typeof req.query.code === 'string' ? normalizeVerificationCode(req.query.code) : null;
+  if (!code) {
+    res.status(400).json({ success: false, message: 'Enter the 12-character verification code printed on the certificate.' });
+    return;
+  }
+  try {
+    const result = await getResultStore().findByVerificationCode(code);
+    if (!result) {
+      res.status(404).json({ success: false, message: 'No stored result has this verification code.' });
+      return;
+    }
+    res.status(200).json({ success: true, data: result });
+  } catch (err: any) {
+    console.error('Verification error:', err);
+    res.status(500).json({ success: false, message: `Verification error: ${err.message}` });
+  }
+}
@@ -1,11 +1,35 @@
 import React, { useState, useCallback } from 'react';
+import { FolderEntry, isPackageFileName, PACKAGE_FILE_TYPES } from '../utils/testPackage';
 
 interface FileUploadProps {
     onFileUpload: (file: File) => void;
+    onFolderUpload: (entries: FolderEntry[]) => void;
     onUrlSubmit: (url: string) => void;
+    onOpenEditor: () => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onUrlSubmit }) => {
+// readEntries returns a directory's entries in batches, and an empty batch at the end.
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) return entries;
+        entries.push(...batch);
+    }
+};
+
+// Lists every file under a dropped folder, with paths starting at the folder itself like webkitRelativePath.
+const readDroppedFolder = async (entry: FileSystemEntry): Promise<FolderEntry[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+    }
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(readDroppedFolder))).flat();
+};
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onFolderUpload, onUrlSubmit, onOpenEditor }) => {
     const [isDragging, setIsDragging] = useState(false);
     const [url, setUrl] = useState('');
 
@@ -30,22 +54,37 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onUrlSubmi
         e.preventDefault();
         e.stopPropagation();
         setIsDragging(false);
+        // The entry has to be taken during the drop event; the data transfer is emptied afterwards.
+        const entry = e.dataTransfer.items?.[0]?.webkitGetAsEntry();
+        if (entry?.isDirectory) {
+            readDroppedFolder(entry)
+                .then(onFolderUpload)
+                .catch(err => alert(`The folder could not be read: ${err instanceof Error ? err.message : err}`));
+            return;
+        }
         if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
             const file = e.dataTransfer.files[0];
-            if (file.type === 'application/zip' || file.name.endsWith('.zip')) {
+            if (file.type === 'application/zip' || isPackageFileName(file.name)) {
                 onFileUpload(file);
             } else {
-                alert('Please upload a valid .zip file.');
+                alert('Please upload a test package: a .zip, .tar.gz or .json file, or a folder.');
             }
             e.dataTransfer.clearData();
         }
-    }, [onFileUpload]);
+    }, [onFileUpload, onFolderUpload]);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
             onFileUpload(e.target.files[0]);
         }
     };
+
+    const handleFolderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) {
+            onFolderUpload(Array.from(e.target.files, (file: File) => ({ path: file.webkitRelativePath || file.name, file })));
+        }
+        e.target.value = '';
+    };
     
     const handleUrlFormSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -69,18 +108,30 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onUrlSubmi
                     type="file"
                     id="file-upload"
                     className="hidden"
-                    accept=".zip"
+                    accept={PACKAGE_FILE_TYPES}
                     onChange={handleFileChange}
                 />
+                <input
+                    type="file"
+                    id="folder-upload"
+                    className="hidden"
+                    webkitdirectory=""
+                    onChange={handleFolderChange}
+                />
                 <label htmlFor="file-upload" className="cursor-pointer">
                     <div className="flex flex-col items-center">
                         <svg className="w-16 h-16 mb-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"></path></svg>
                         <p className="text-xl text-gray-400">
                             <span className="font-semibold text-purple-400">Click to upload</span> or drag and drop
                         </p>
-                        <p className="text-sm text-gray-500">Upload a local ZIP for a private session.</p>
+                        <p className="text-sm text-gray-500">Upload a local .zip, .tar.gz or .json test for a private session.</p>
                     </div>
                 </label>
+                <p className="mt-2 text-sm text-gray-500">
+                    Test not packaged yet?{' '}
+                    <label htmlFor="folder-upload" className="cursor-pointer font-semibold text-purple-400 hover:text-purple-300">Choose its folder</label>
+                    {' '}or drop the folder here.
+                </p>
             </div>
 
             <div className="my-8 flex items-center" aria-hidden="true">
@@ -112,6 +163,26 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onUrlSubmi
                     </button>
                 </form>
             </div>
+
+            <div className="my-8 flex items-center" aria-hidden="true">
+                <div className="flex-grow border-t border-gray-700"></div>
+                <span className="flex-shrink mx-4 uppercase text-gray-500 font-semibold">Or</span>
+                <div className="flex-grow border-t border-gray-700"></div>
+            </div>
+
+            <div className="w-full">
+                <h3 className="text-2xl font-bold text-gray-200 mb-2">Author a Test</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                    Draw hotspots and input boxes on your screenshots, then export a ZIP that this player can load. You can also open an existing test ZIP to edit it.
+                </p>
+                <button
+                    type="button"
+                    onClick={onOpenEditor}
+                    className="px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500"
+                >
+                    Open Test Editor
+                </button>
+            </div>
         </div>
     );
 };
\ No newline at end of file
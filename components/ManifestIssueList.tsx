@@ -0,0 +1,27 @@
+import React from 'react';
+import { ManifestIssue } from '../types';
+
+export const ManifestIssueList: React.FC<{ issues: ManifestIssue[] }> = ({ issues }) => (
+    <div className="max-h-80 overflow-y-auto text-left">
+        <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-800">
+                <tr className="border-b border-gray-600 text-gray-300">
+                    <th className="p-2 font-semibold">Frame</th>
+                    <th className="p-2 font-semibold">Field</th>
+                    <th className="p-2 font-semibold">Expected</th>
+                    <th className="p-2 font-semibold">Actual</th>
+                </tr>
+            </thead>
+            <tbody>
+                {issues.map((issue, index) => (
+                    <tr key={index} className="border-b border-gray-700 text-gray-400">
+                        <td className="p-2 font-mono">{issue.frameIndex === null ? '—' : issue.frameIndex + 1}</td>
+                        <td className="p-2 font-mono">{issue.path || '(root)'}</td>
+                        <td className="p-2">{issue.expected}</td>
+                        <td className="p-2 text-red-300">{issue.actual}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { BackgroundMistake, FrameData, UserAnswer } from '../types';
+import { ResultsReport } from '../utils/resultsReport';
+import { FrameImageLoader } from '../utils/frameImages';
+import { describeIntegritySummary } from '../utils/integrity';
+import TestFramePlayer from './TestFramePlayer';
+
+interface PrintableReportProps {
+  report: ResultsReport;
+  frames: FrameData[];
+  userAnswers: Record<string, UserAnswer>;
+  backgroundMistakes: Record<string, BackgroundMistake[]>;
+  formatTime: (t: number) => string;
+  frameImages: FrameImageLoader;
+  onReady: () => void; // Called once every frame image has loaded or failed to
+}
+
+const noop = () => {};
+
+// A print-only rendering of the results: a summary followed by every frame
+// with the same review overlays shown on screen. It is only mounted while
+// printing, since it holds the images of every frame in the report.
+export const PrintableReport: React.FC<PrintableReportProps> = ({ report, frames, userAnswers, backgroundMistakes, formatTime, frameImages, onReady }) => {
+  const [imageUrls, setImageUrls] = useState<Record<string, string | null> | null>(null);
+
+  useEffect(() => {
+    const frameIds = report.frames.map(frame => frame.frameId);
+    const releases = frameIds.map(frameId => frameImages.hold(frameId));
+    let cancelled = false;
+    Promise.all(frameIds.map(frameId => frameImages.load(frameId).catch(() => null))).then(urls => {
+      if (!cancelled) setImageUrls(Object.fromEntries(frameIds.map((frameId, i) => [frameId, urls[i]])));
+    });
+    return () => {
+      cancelled = true;
+      releases.forEach(release => release());
+    };
+  }, [frameImages, report]);
+
+  useEffect(() => {
+    if (imageUrls) onReady();
+  }, [imageUrls]);
+
+  return (
+    <div className="hidden print:block bg-white text-black p-6">
+      <h1 className="text-2xl font-bold mb-2">Test Results</h1>
+      {report.testTitle && <p>Test: {report.testTitle}{report.testVersion && ` (version ${report.testVersion})`}</p>}
+      <p>Candidate: {report.email}</p>
+      {report.testUrl && <p className="break-all">{report.testTitle ? 'Source' : 'Test'}: {report.testUrl}</p>}
+      <p>Score: {report.score} / {report.totalPossible}{report.totalPenalty > 0 && ` (${report.totalPenalty} points deducted)`}</p>
+      {report.passed !== null && <p>Result: {report.passed ? 'Passed' : 'Not passed'} (pass mark: {Number(report.passingThreshold!.toFixed(2))} points)</p>}
+      <p>Total time: {formatTime(report.totalTimeSeconds)}</p>
+      {report.integrity && <p>Integrity: {describeIntegritySummary(report.integrity)}{report.integrity.flagged && ' (flagged for review)'}</p>}
+      {report.practice && <p>Practice attempt, {report.hintsUsed} hint{report.hintsUsed === 1 ? '' : 's'} used</p>}
+      <p className="text-sm text-gray-600">Generated {new Date(report.generatedAt).toLocaleString()}</p>
+
+      {report.frames.map(frameOutcome => {
+        const frame = frames.find(f => f.id === frameOutcome.frameId);
+        if (!frame) return null;
+        return (
+          <section key={frame.id} className="mt-8" style={{ breakInside: 'avoid', pageBreakInside: 'avoid' }}>
+            <h2 className="text-lg font-semibold mb-2">
+              Frame {frameOutcome.frameNumber}: {frameOutcome.image} ({frameOutcome.earned} / {frameOutcome.possible}
+              {frameOutcome.penalty > 0 && `, -${frameOutcome.penalty}`}, {formatTime(frameOutcome.timeSpentSeconds)}
+              {frameOutcome.timedOut && ', timed out'})
+            </h2>
+            <div className="mb-10">
+              <TestFramePlayer
+                frame={frame}
+                imageUrl={imageUrls?.[frame.id] ?? null}
+                imageError={imageUrls !== null && !imageUrls[frame.id]}
+                onInputChange={noop}
+                onHotspotInteraction={noop}
+                onFrameClickMistake={noop}
+                onInputBlur={noop}
+                userInputsForFrame={userAnswers[frame.id]?.inputs || {}}
+                userHotspotsClickedForFrame={userAnswers[frame.id]?.hotspotsClicked || {}}
+                showResults={true}
+                backgroundMistakesForFrame={backgroundMistakes[frame.id]}
+              />
+            </div>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-black text-left">
+                  <th className="p-1">Box</th>
+                  <th className="p-1">Outcome</th>
+                  <th className="p-1">Given</th>
+                  <th className="p-1">Expected</th>
+                  <th className="p-1 text-right">Points</th>
+                </tr>
+              </thead>
+              <tbody>
+                {frameOutcome.boxes.map(box => (
+                  <tr key={box.boxId} className="border-b border-gray-300">
+                    <td className="p-1">{box.label}</td>
+                    <td className="p-1">{box.outcome}</td>
+                    <td className="p-1">{box.given ?? ''}</td>
+                    <td className="p-1">{box.expected ?? ''}</td>
+                    <td className="p-1 text-right">{box.earned} / {box.possible}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {frameOutcome.backgroundMistakes.length > 0 && (
+              <p className="text-sm mt-1">
+                Background clicks: {frameOutcome.backgroundMistakes.map(m => `(${m.x}, ${m.y})`).join(', ')}
+              </p>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { VerifiedResult } from '../types';
+import { verifyResult } from '../utils/leaderboardClient';
+import { describeIntegritySummary } from '../utils/integrity';
+
+interface ResultVerificationProps {
+  initialCode: string;
+  onExit: () => void;
+}
+
+// Looks up the stored result behind a certificate's verification code, so the
+// certificate can be compared with what was actually recorded.
+export const ResultVerification: React.FC<ResultVerificationProps> = ({ initialCode, onExit }) => {
+  const [code, setCode] = useState(initialCode);
+  const [result, setResult] = useState<VerifiedResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const check = useCallback(async (value: string) => {
+    setIsChecking(true);
+    setError(null);
+    setResult(null);
+    try {
+      setResult(await verifyResult(value.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not check the verification code.');
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (initialCode) check(initialCode);
+  }, [initialCode, check]);
+
+  return (
+    <div className="w-full max-w-xl p-8 bg-gray-800 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-gray-100 mb-2">Verify a Certificate</h2>
+      <p className="text-sm text-gray-400 mb-4">Enter the verification code printed on the certificate to see the result it was issued for.</p>
+      <form onSubmit={(e) => { e.preventDefault(); check(code); }} className="flex flex-col sm:flex-row gap-3">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="XXXX-XXXX-XXXX"
+          required
+          className="flex-grow px-4 py-3 font-mono uppercase bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          aria-label="Verification code"
+        />
+        <button
+          type="submit"
+          disabled={isChecking}
+          className="px-6 py-3 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white font-semibold rounded-md transition-colors"
+        >
+          {isChecking ? 'Checking...' : 'Verify'}
+        </button>
+      </form>
+
+      <div aria-live="polite">
+        {error && <p className="mt-4 text-red-400">{error}</p>}
+        {result && (
+          <dl className="mt-6 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-gray-200">
+            <dt className="text-gray-400">Code</dt>
+            <dd className="font-mono">{result.verificationCode}</dd>
+            <dt className="text-gray-400">Candidate</dt>
+            <dd className="break-all">{result.email}</dd>
+            <dt className="text-gray-400">Test</dt>
+            <dd className="break-all">{result.testUrl}</dd>
+            <dt className="text-gray-400">Score</dt>
+            <dd>{result.score} / {result.totalPossible}</dd>
+            <dt className="text-gray-400">Result</dt>
+            <dd>{result.passed === undefined ? 'No passing score set' : result.passed ? 'Passed' : 'Not passed'}</dd>
+            {result.integrity && (
+              <>
+                <dt className="text-gray-400">Integrity</dt>
+                <dd className={result.integrity.flagged ? 'text-red-400' : undefined}>
+                  {describeIntegritySummary(result.integrity)}{result.integrity.flagged && ' (flagged for review)'}
+                </dd>
+              </>
+            )}
+            <dt className="text-gray-400">Completed</dt>
+            <dd>{new Date(result.timestamp).toLocaleString()}</dd>
+          </dl>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={onExit}
+        className="mt-6 px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+      >
+        Back
+      </button>
+    </div>
+  );
+};
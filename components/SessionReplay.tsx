@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BoxType, FrameData, SessionEvent } from '../types';
+import { getReplayState, describeSessionEvent, compressIdleGaps, parseSessionLog } from '../utils/sessionLog';
+import { toPercentStyle, toPercentPoint, toShapeStyle } from '../utils/geometry';
+import { FrameImageLoader, useFrameImage } from '../utils/frameImages';
+
+interface SessionReplayProps {
+  frames: FrameData[];
+  frameImages: FrameImageLoader;
+  events: SessionEvent[];
+  testId?: string | null;
+}
+
+const PLAYBACK_TICK_MS = 50;
+const PLAYBACK_SPEEDS = [1, 2, 4, 8];
+
+const formatOffset = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60).toString().padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
+
+export const SessionReplay: React.FC<SessionReplayProps> = ({ frames, frameImages, events: recordedEvents, testId }) => {
+  // An exported log opened from disk replaces the current attempt's events, e.g. to review a disputed score.
+  const [openedLog, setOpenedLog] = useState<{ email: string, events: SessionEvent[] } | null>(null);
+  const [logError, setLogError] = useState<string | null>(null);
+  const events = useMemo(() => compressIdleGaps(openedLog?.events ?? recordedEvents), [openedLog, recordedEvents]);
+  const [offset, setOffset] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const duration = events.length > 0 ? events[events.length - 1].time - events[0].time : 0;
+
+  useEffect(() => {
+    setOffset(0);
+    setIsPlaying(false);
+  }, [events]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timerId = setInterval(() => {
+      setOffset(prev => Math.min(prev + PLAYBACK_TICK_MS * speed, duration));
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(timerId);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+    if (offset >= duration) setIsPlaying(false);
+  }, [offset, duration]);
+
+  const handleOpenLog = async (file: File) => {
+    setLogError(null);
+    try {
+      const log = parseSessionLog(await file.text());
+      if (testId && log.testId && log.testId !== testId) {
+        throw new Error('This session log was recorded for a different test.');
+      }
+      setOpenedLog({ email: log.email, events: log.events });
+    } catch (err) {
+      setLogError(err instanceof Error ? err.message : 'Could not open the session log.');
+    }
+  };
+
+  const openLogControl = (
+    <div className="flex items-center gap-3 text-sm text-gray-400">
+      <label className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-white rounded-md cursor-pointer transition-colors">
+        Open Exported Log
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => { if (e.target.files?.[0]) handleOpenLog(e.target.files[0]); e.target.value = ''; }}
+        />
+      </label>
+      {openedLog && (
+        <>
+          <span>Replaying log of {openedLog.email || 'unknown candidate'}</span>
+          <button onClick={() => setOpenedLog(null)} className="underline hover:text-gray-200">Show this attempt</button>
+        </>
+      )}
+      {logError && <span className="text-red-400">{logError}</span>}
+    </div>
+  );
+
+  const replay = useMemo(() => getReplayState(events, offset), [events, offset]);
+  const frame = frames.find(f => f.id === replay.frameId) ?? frames[0];
+  const { url: imageUrl } = useFrameImage(frameImages, frame.id);
+
+  if (events.length === 0) {
+    return (
+      <div className="p-8 flex flex-col items-center gap-4 text-gray-400 bg-gray-800 rounded-lg">
+        No interactions were recorded for this attempt.
+        {openLogControl}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div
+        className="relative w-full bg-gray-800 rounded-lg overflow-hidden shadow-lg"
+        style={{ aspectRatio: `${frame.originalWidth} / ${frame.originalHeight}` }}
+        aria-label="Session replay"
+      >
+        {imageUrl && <img src={imageUrl} alt={`Replay of ${frame.imageFileName}`} className="block w-full h-auto pointer-events-none" draggable="false" />}
+        {frame.boxes.map(box => (
+          <div
+            key={box.id}
+            style={{ ...toPercentStyle(box, frame.originalWidth, frame.originalHeight), ...(box.type === BoxType.HOTSPOT ? toShapeStyle(box) : {}) }}
+            className={`pointer-events-none rounded-md border ${box.type === BoxType.INPUT ? 'border-purple-400/60 flex items-center px-1' : 'border-white/20'}`}
+          >
+            {box.type === BoxType.INPUT && (
+              <span className="text-xs md:text-sm text-black bg-white/90 px-1 rounded-sm truncate">{replay.inputs[box.id] ?? ''}</span>
+            )}
+          </div>
+        ))}
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${frame.originalWidth} ${frame.originalHeight}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+        >
+          {replay.trail.length > 1 && (
+            <polyline
+              points={replay.trail.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke="rgba(168, 85, 247, 0.7)"
+              strokeWidth={Math.max(frame.originalWidth, frame.originalHeight) / 300}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )}
+        </svg>
+        {replay.clicks.map((click, index) => (
+          <div
+            key={index}
+            style={toPercentPoint(click, frame.originalWidth, frame.originalHeight)}
+            className={`absolute w-5 h-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 pointer-events-none ${click.correct ? 'border-green-400 bg-green-500/40' : 'border-red-400 bg-red-500/40'}`}
+          />
+        ))}
+        {replay.cursor && (
+          <div
+            style={toPercentPoint(replay.cursor, frame.originalWidth, frame.originalHeight)}
+            className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-purple-400 ring-2 ring-white pointer-events-none"
+          />
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 p-3 bg-gray-800 rounded-lg shadow-lg">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => {
+              if (offset >= duration) setOffset(0);
+              setIsPlaying(prev => !prev);
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 transition-colors"
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="px-2 py-2 text-sm bg-gray-900 text-white border border-gray-600 rounded-md"
+            aria-label="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={PLAYBACK_TICK_MS}
+            value={offset}
+            onChange={(e) => { setIsPlaying(false); setOffset(Number(e.target.value)); }}
+            className="flex-grow accent-purple-500"
+            aria-label="Replay position"
+          />
+          <span className="font-mono text-sm text-gray-300">{formatOffset(offset)} / {formatOffset(duration)}</span>
+        </div>
+        <p className="text-sm text-gray-400" aria-live="polite">
+          Frame {frames.indexOf(frame) + 1} of {frames.length}
+          {replay.lastEvent && <> · {describeSessionEvent(replay.lastEvent)}</>}
+        </p>
+        {openLogControl}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,559 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Frame as RawFrame, Hotspot, Input, Manifest, ManifestIssue, TestConfig } from '../types';
+import { toPercentStyle, toShapeStyle, toImagePoint, Point, Rect } from '../utils/geometry';
+import { ManifestValidationError, validateManifest, validateFrameBounds } from '../utils/manifestValidation';
+import { openPackageFile, readManifest, findImageEntry, findEmbeddedImage, measureImage, buildTestZip, PACKAGE_FILE_TYPES } from '../utils/testPackage';
+import { downloadBlob } from '../utils/download';
+import { ManifestIssueList } from './ManifestIssueList';
+import { ChevronLeftIcon, ChevronRightIcon } from './icons';
+
+interface TestEditorProps {
+  onExit: () => void;
+}
+
+// A frame being authored. `manifest` holds the raw manifest entry so fields the
+// editor does not expose survive a round trip through open and export.
+interface EditorFrame {
+  id: string;
+  imageBlob: Blob;
+  imageUrl: string;
+  width: number;
+  height: number;
+  manifest: RawFrame;
+}
+
+type BoxKind = 'hotspot' | 'input';
+
+interface Selection {
+  kind: BoxKind;
+  index: number;
+}
+
+// Boxes smaller than this (in image pixels) are treated as stray clicks, not drawings.
+const MIN_BOX_SIZE = 4;
+
+// Stands for a `null` hotspot target, which ends the test, in the target picker.
+const END_OF_TEST_OPTION = '__end__';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const normalizeRect = (start: Point, end: Point, width: number, height: number): Rect => {
+  const x1 = clamp(Math.min(start.x, end.x), 0, width);
+  const y1 = clamp(Math.min(start.y, end.y), 0, height);
+  const x2 = clamp(Math.max(start.x, end.x), 0, width);
+  const y2 = clamp(Math.max(start.y, end.y), 0, height);
+  return { x: Math.round(x1), y: Math.round(y1), w: Math.round(x2 - x1), h: Math.round(y2 - y1) };
+};
+
+// Picks a file name that is not yet used by another frame, e.g. "shot (2).png".
+const uniqueImageName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let n = 2;
+  while (taken.has(`${base} (${n})${ext}`)) n++;
+  return `${base} (${n})${ext}`;
+};
+
+const createEditorFrame = async (imageName: string, imageBlob: Blob, manifest?: RawFrame): Promise<EditorFrame> => {
+  const imageUrl = URL.createObjectURL(imageBlob);
+  try {
+    const { width, height } = await measureImage(imageUrl, imageName);
+    return {
+      id: crypto.randomUUID(),
+      imageBlob,
+      imageUrl,
+      width,
+      height,
+      manifest: manifest ? { ...manifest, image: imageName } : { image: imageName, hotspots: [], inputs: [] },
+    };
+  } catch (err) {
+    URL.revokeObjectURL(imageUrl);
+    throw err;
+  }
+};
+
+export const TestEditor: React.FC<TestEditorProps> = ({ onExit }) => {
+  const [frames, setFrames] = useState<EditorFrame[]>([]);
+  const [currentFrameIdx, setCurrentFrameIdx] = useState(0);
+  const [tool, setTool] = useState<BoxKind>('hotspot');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [draft, setDraft] = useState<{ start: Point, end: Point } | null>(null);
+  const [testName, setTestName] = useState('my-test');
+  const [issues, setIssues] = useState<ManifestIssue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Top-level manifest sections (e.g. scoring) are kept as opened and written back on export.
+  const [sections, setSections] = useState<TestConfig>({});
+
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const framesRef = useRef(frames);
+  framesRef.current = frames;
+
+  useEffect(() => () => {
+    framesRef.current.forEach(frame => URL.revokeObjectURL(frame.imageUrl));
+  }, []);
+
+  const currentFrame: EditorFrame | undefined = frames[currentFrameIdx];
+
+  const updateCurrentManifest = useCallback((update: (manifest: RawFrame) => RawFrame) => {
+    setFrames(prev => prev.map((frame, idx) => idx === currentFrameIdx ? { ...frame, manifest: update(frame.manifest) } : frame));
+    setIssues([]);
+  }, [currentFrameIdx]);
+
+  const handleAddImages = useCallback(async (files: FileList | File[]) => {
+    const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length === 0) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const taken = new Set<string>(framesRef.current.map(frame => frame.manifest.image));
+      const added: EditorFrame[] = [];
+      for (const file of imageFiles) {
+        const name = uniqueImageName(file.name, taken);
+        taken.add(name);
+        added.push(await createEditorFrame(name, file));
+      }
+      setFrames(prev => [...prev, ...added]);
+      setCurrentFrameIdx(framesRef.current.length);
+      setSelection(null);
+      setIssues([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not add the selected images.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const handleOpenPackage = useCallback(async (file: File) => {
+    setIsBusy(true);
+    setError(null);
+    setIssues([]);
+    try {
+      const testPackage = await openPackageFile(file);
+      const manifest = await readManifest(testPackage);
+      // Embedded images are written into the exported ZIP as files, so the map itself is dropped.
+      const { frames: manifestFrames, images: _images, ...manifestSections } = manifest;
+      const opened: EditorFrame[] = [];
+      for (const entry of manifestFrames) {
+        const imageFile = findImageEntry(testPackage, entry.image) ?? findEmbeddedImage(manifest, entry.image);
+        if (!imageFile) {
+          throw new Error(`Image file "${entry.image}" specified in the JSON was not found in the test package.`);
+        }
+        opened.push(await createEditorFrame(entry.image, await imageFile.read(), entry));
+      }
+      framesRef.current.forEach(frame => URL.revokeObjectURL(frame.imageUrl));
+      setFrames(opened);
+      setSections(manifestSections);
+      setCurrentFrameIdx(0);
+      setSelection(null);
+      setTestName(file.name.replace(/\.(zip|tar|tgz|tar\.gz|json)$/i, ''));
+    } catch (err) {
+      if (err instanceof ManifestValidationError) setIssues(err.issues);
+      setError(err instanceof Error ? err.message : 'Could not open the test package.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    const manifest: Manifest = { ...sections, frames: frames.map(frame => frame.manifest) };
+    try {
+      validateManifest(manifest);
+    } catch (err) {
+      if (err instanceof ManifestValidationError) {
+        setIssues(err.issues);
+        setError('Fix the problems below before exporting.');
+        return;
+      }
+      throw err;
+    }
+    const boundsIssues = frames.flatMap((frame, idx) => validateFrameBounds(frame.manifest, idx, frame.width, frame.height));
+    if (boundsIssues.length > 0) {
+      setIssues(boundsIssues);
+      setError('Fix the problems below before exporting.');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const blob = await buildTestZip(manifest, frames.map(frame => ({ name: frame.manifest.image, blob: frame.imageBlob })));
+      downloadBlob(blob, `${testName.trim() || 'test'}.zip`);
+      setIssues([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not build the ZIP file.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [frames, sections, testName]);
+
+  const moveFrame = useCallback((idx: number, direction: -1 | 1) => {
+    const target = idx + direction;
+    if (target < 0 || target >= frames.length) return;
+    setFrames(prev => {
+      const next = [...prev];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
+    if (currentFrameIdx === idx) setCurrentFrameIdx(target);
+    else if (currentFrameIdx === target) setCurrentFrameIdx(idx);
+    setIssues([]);
+  }, [frames.length, currentFrameIdx]);
+
+  const removeFrame = useCallback((idx: number) => {
+    URL.revokeObjectURL(frames[idx].imageUrl);
+    setFrames(prev => prev.filter((_, i) => i !== idx));
+    setCurrentFrameIdx(prev => Math.max(0, prev > idx || prev === frames.length - 1 ? prev - 1 : prev));
+    setSelection(null);
+    setIssues([]);
+  }, [frames]);
+
+  const getImagePoint = (event: React.PointerEvent<HTMLDivElement>): Point | null => {
+    if (!canvasRef.current || !currentFrame) return null;
+    const rect = canvasRef.current.getBoundingClientRect();
+    return toImagePoint(event.clientX, event.clientY, rect, currentFrame.width, currentFrame.height);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    if (target.closest('[data-editor-box]')) return;
+    const point = getImagePoint(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({ start: point, end: point });
+    setSelection(null);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!draft) return;
+    const point = getImagePoint(event);
+    if (point) setDraft({ ...draft, end: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft || !currentFrame) return;
+    const rect = normalizeRect(draft.start, draft.end, currentFrame.width, currentFrame.height);
+    setDraft(null);
+    if (rect.w < MIN_BOX_SIZE || rect.h < MIN_BOX_SIZE) return;
+
+    if (tool === 'hotspot') {
+      const index = currentFrame.manifest.hotspots.length;
+      updateCurrentManifest(manifest => ({
+        ...manifest,
+        hotspots: [...manifest.hotspots, { ...rect, label: `Hotspot ${index + 1}` }],
+      }));
+      setSelection({ kind: 'hotspot', index });
+    } else {
+      const index = currentFrame.manifest.inputs.length;
+      updateCurrentManifest(manifest => ({
+        ...manifest,
+        inputs: [...manifest.inputs, { ...rect, label: `Input ${index + 1}`, expected: '' }],
+      }));
+      setSelection({ kind: 'input', index });
+    }
+  };
+
+  const updateSelectedBox = (changes: Partial<Hotspot> | Partial<Input>) => {
+    if (!selection) return;
+    updateCurrentManifest(manifest => selection.kind === 'hotspot'
+      ? { ...manifest, hotspots: manifest.hotspots.map((h, i) => i === selection.index ? { ...h, ...changes } as Hotspot : h) }
+      : { ...manifest, inputs: manifest.inputs.map((input, i) => i === selection.index ? { ...input, ...changes } as Input : input) });
+  };
+
+  const deleteSelectedBox = () => {
+    if (!selection) return;
+    updateCurrentManifest(manifest => selection.kind === 'hotspot'
+      ? { ...manifest, hotspots: manifest.hotspots.filter((_, i) => i !== selection.index) }
+      : { ...manifest, inputs: manifest.inputs.filter((_, i) => i !== selection.index) });
+    setSelection(null);
+  };
+
+  const selectedBox: Hotspot | Input | undefined = currentFrame && selection
+    ? (selection.kind === 'hotspot' ? currentFrame.manifest.hotspots : currentFrame.manifest.inputs)[selection.index]
+    : undefined;
+
+  const numberField = (label: string, value: number | undefined, onChange: (value: number | undefined) => void) => (
+    <label className="flex flex-col text-xs text-gray-400 gap-1">
+      {label}
+      <input
+        type="number"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+        className="px-2 py-1 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="w-full h-full flex flex-col p-2 md:p-4 gap-4">
+      <header className="w-full bg-gray-800 p-3 rounded-lg shadow-lg flex flex-wrap items-center gap-3">
+        <h2 className="text-xl md:text-2xl font-bold text-gray-200 mr-auto">Test Editor</h2>
+        <input
+          type="text"
+          value={testName}
+          onChange={(e) => setTestName(e.target.value)}
+          className="px-3 py-2 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          aria-label="Test file name"
+        />
+        <label className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 cursor-pointer transition-colors">
+          Open Test
+          <input
+            type="file"
+            accept={PACKAGE_FILE_TYPES}
+            className="hidden"
+            onChange={(e) => { if (e.target.files?.[0]) handleOpenPackage(e.target.files[0]); e.target.value = ''; }}
+          />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={frames.length === 0 || isBusy}
+          className="px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          Export ZIP
+        </button>
+        <button
+          onClick={onExit}
+          className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+        >
+          Exit Editor
+        </button>
+      </header>
+
+      {(error || issues.length > 0) && (
+        <div className="w-full p-4 bg-gray-800 border border-red-500 rounded-lg">
+          {error && <p className="text-red-400 mb-2">{error}</p>}
+          {issues.length > 0 && <ManifestIssueList issues={issues} />}
+        </div>
+      )}
+
+      <div className="w-full flex flex-col lg:flex-row gap-4 flex-grow">
+        <aside className="lg:w-56 bg-gray-800 p-3 rounded-lg shadow-lg flex flex-col gap-2">
+          <h3 className="font-semibold text-gray-300">Frames</h3>
+          <ol className="flex flex-col gap-2 overflow-y-auto max-h-[60vh]">
+            {frames.map((frame, idx) => (
+              <li
+                key={frame.id}
+                className={`p-2 rounded-md border cursor-pointer ${idx === currentFrameIdx ? 'border-purple-500 bg-gray-700' : 'border-gray-700 hover:border-gray-500'}`}
+                onClick={() => { setCurrentFrameIdx(idx); setSelection(null); }}
+              >
+                <img src={frame.imageUrl} alt="" className="w-full h-auto rounded-sm mb-1" draggable="false" />
+                <div className="flex items-center gap-1 text-xs text-gray-400">
+                  <span className="truncate mr-auto" title={frame.manifest.image}>{idx + 1}. {frame.manifest.image}</span>
+                  <button onClick={(e) => { e.stopPropagation(); moveFrame(idx, -1); }} disabled={idx === 0} className="disabled:opacity-30" aria-label="Move frame up">
+                    <ChevronLeftIcon className="h-4 w-4 rotate-90" />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); moveFrame(idx, 1); }} disabled={idx === frames.length - 1} className="disabled:opacity-30" aria-label="Move frame down">
+                    <ChevronRightIcon className="h-4 w-4 rotate-90" />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); removeFrame(idx); }} className="text-red-400 hover:text-red-300 px-1" aria-label="Remove frame">✕</button>
+                </div>
+              </li>
+            ))}
+          </ol>
+          <label
+            className="mt-auto p-3 text-center text-sm text-gray-400 border-2 border-dashed border-gray-600 hover:border-purple-400 rounded-md cursor-pointer"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); handleAddImages(e.dataTransfer.files); }}
+          >
+            {isBusy ? 'Working...' : 'Add or drop screenshots'}
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => { if (e.target.files) handleAddImages(e.target.files); e.target.value = ''; }}
+            />
+          </label>
+        </aside>
+
+        <main className="flex-grow flex flex-col gap-2">
+          {currentFrame ? (
+            <>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-gray-400">Draw:</span>
+                {(['hotspot', 'input'] as const).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setTool(kind)}
+                    className={`px-3 py-1 rounded-md capitalize transition-colors ${tool === kind ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  >
+                    {kind}
+                  </button>
+                ))}
+                <span className="text-gray-500 ml-2">Drag on the image to draw a box. Click a box to edit it.</span>
+              </div>
+              <div
+                ref={canvasRef}
+                className="relative w-full bg-gray-800 rounded-lg overflow-hidden shadow-lg cursor-crosshair select-none"
+                style={{ aspectRatio: `${currentFrame.width} / ${currentFrame.height}` }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                <img src={currentFrame.imageUrl} alt={currentFrame.manifest.image} className="block w-full h-auto pointer-events-none" draggable="false" />
+                {currentFrame.manifest.hotspots.map((hotspot, index) => {
+                  const isSelected = selection?.kind === 'hotspot' && selection.index === index;
+                  return (
+                    <div
+                      key={`hotspot-${index}`}
+                      data-editor-box
+                      style={{ ...toPercentStyle(hotspot, currentFrame.width, currentFrame.height), ...toShapeStyle(hotspot) }}
+                      className={`border-2 rounded-md cursor-pointer flex items-start justify-start ${isSelected ? 'border-yellow-300 bg-yellow-400/30' : 'border-green-400 bg-green-500/20'}`}
+                      onClick={() => setSelection({ kind: 'hotspot', index })}
+                      title={hotspot.label}
+                    >
+                      <span className="text-xs bg-gray-900/80 text-white px-1 rounded-sm">
+                        {hotspot.order !== undefined ? `${hotspot.order}. ` : ''}{hotspot.label}
+                      </span>
+                    </div>
+                  );
+                })}
+                {currentFrame.manifest.inputs.map((input, index) => {
+                  const isSelected = selection?.kind === 'input' && selection.index === index;
+                  return (
+                    <div
+                      key={`input-${index}`}
+                      data-editor-box
+                      style={toPercentStyle(input, currentFrame.width, currentFrame.height)}
+                      className={`border-2 border-dashed rounded-md cursor-pointer flex items-start justify-start ${isSelected ? 'border-yellow-300 bg-yellow-400/30' : 'border-purple-400 bg-purple-500/20'}`}
+                      onClick={() => setSelection({ kind: 'input', index })}
+                      title={input.label}
+                    >
+                      <span className="text-xs bg-gray-900/80 text-white px-1 rounded-sm">{input.label}</span>
+                    </div>
+                  );
+                })}
+                {draft && (
+                  <div
+                    style={toPercentStyle(normalizeRect(draft.start, draft.end, currentFrame.width, currentFrame.height), currentFrame.width, currentFrame.height)}
+                    className="border-2 border-white border-dashed bg-white/10 pointer-events-none"
+                  />
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="flex-grow flex items-center justify-center p-10 bg-gray-800 rounded-lg text-gray-400 text-center">
+              Add screenshots or open an existing test ZIP to start authoring.
+            </div>
+          )}
+        </main>
+
+        <aside className="lg:w-64 bg-gray-800 p-3 rounded-lg shadow-lg flex flex-col gap-3">
+          <h3 className="font-semibold text-gray-300">Properties</h3>
+          {selectedBox && selection ? (
+            <>
+              <p className="text-sm text-gray-400 capitalize">{selection.kind} {selection.index + 1}</p>
+              <label className="flex flex-col text-xs text-gray-400 gap-1">
+                Label
+                <input
+                  type="text"
+                  value={selectedBox.label}
+                  onChange={(e) => updateSelectedBox({ label: e.target.value })}
+                  className="px-2 py-1 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+              </label>
+              {numberField('Points (blank for 1)', selectedBox.points, (points) => updateSelectedBox({ points }))}
+              {selection.kind === 'hotspot' && numberField('Order (blank for none)', (selectedBox as Hotspot).order, (order) => updateSelectedBox({ order }))}
+              {selection.kind === 'hotspot' && (
+                <>
+                  {(selectedBox as Hotspot).shape === 'polygon' ? (
+                    <p className="text-xs text-gray-400">Polygon with {(selectedBox as Hotspot).vertices?.length} vertices (edit them in the manifest)</p>
+                  ) : (
+                    <label className="flex flex-col text-xs text-gray-400 gap-1">
+                      Shape
+                      <select
+                        value={(selectedBox as Hotspot).shape ?? 'rect'}
+                        onChange={(e) => updateSelectedBox({ shape: e.target.value === 'ellipse' ? 'ellipse' : undefined })}
+                        className="px-2 py-1 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      >
+                        <option value="rect">Rectangle</option>
+                        <option value="ellipse">Ellipse</option>
+                      </select>
+                    </label>
+                  )}
+                  <label className="flex flex-col text-xs text-gray-400 gap-1">
+                    Leads to
+                    <select
+                      value={(selectedBox as Hotspot).target === null ? END_OF_TEST_OPTION : (selectedBox as Hotspot).target ?? ''}
+                      onChange={(e) => updateSelectedBox({ target: e.target.value === '' ? undefined : e.target.value === END_OF_TEST_OPTION ? null : e.target.value })}
+                      className="px-2 py-1 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">Following frame</option>
+                      <option value={END_OF_TEST_OPTION}>End of test</option>
+                      {frames.map(frame => <option key={frame.id} value={frame.manifest.id ?? frame.manifest.image}>{frame.manifest.image}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={(selectedBox as Hotspot).mistake ?? false}
+                      onChange={(e) => updateSelectedBox({ mistake: e.target.checked || undefined })}
+                    />
+                    Wrong choice (counts as a mistake)
+                  </label>
+                </>
+              )}
+              {selection.kind === 'input' && (
+                <label className="flex flex-col text-xs text-gray-400 gap-1">
+                  Expected answer
+                  <input
+                    type="text"
+                    value={(selectedBox as Input).expected}
+                    onChange={(e) => updateSelectedBox({ expected: e.target.value })}
+                    className="px-2 py-1 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </label>
+              )}
+              {selection.kind === 'input' && (
+                <>
+                  <label className="flex flex-col text-xs text-gray-400 gap-1">
+                    Also accept (one per line)
+                    <textarea
+                      rows={3}
+                      value={((selectedBox as Input).match?.accept ?? []).join('\n')}
+                      onChange={(e) => {
+                        const accept = e.target.value.split('\n');
+                        updateSelectedBox({ match: { ...(selectedBox as Input).match, accept: accept.some(a => a !== '') ? accept : undefined } });
+                      }}
+                      className="px-2 py-1 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={(selectedBox as Input).match?.caseSensitive ?? false}
+                      onChange={(e) => updateSelectedBox({ match: { ...(selectedBox as Input).match, caseSensitive: e.target.checked || undefined } })}
+                    />
+                    Case sensitive
+                  </label>
+                </>
+              )}
+              {(selectedBox as Hotspot).shape !== 'polygon' && (
+                <div className="grid grid-cols-2 gap-2">
+                  {numberField('X', selectedBox.x, (x) => updateSelectedBox({ x: x ?? 0 }))}
+                  {numberField('Y', selectedBox.y, (y) => updateSelectedBox({ y: y ?? 0 }))}
+                  {numberField('Width', selectedBox.w, (w) => updateSelectedBox({ w: w ?? 0 }))}
+                  {numberField('Height', selectedBox.h, (h) => updateSelectedBox({ h: h ?? 0 }))}
+                </div>
+              )}
+              <button
+                onClick={deleteSelectedBox}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 transition-colors"
+              >
+                Delete Box
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {currentFrame
+                ? `${currentFrame.manifest.hotspots.length} hotspot(s), ${currentFrame.manifest.inputs.length} input(s). Select a box to edit it.`
+                : 'No frame selected.'}
+            </p>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
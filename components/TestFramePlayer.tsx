@@ -1,5 +1,8 @@
-import React, { useState, useEffect, useImperativeHandle, forwardRef } from 'react';
-import { FrameData, BoxType, InputBox } from '../types';
+import React, { useState, useEffect, useImperativeHandle, useRef, forwardRef } from 'react';
+import { FrameData, BoxType, InputBox, HotspotBox, DragBox, ShortcutBox } from '../types';
+import { isAnswerCorrect, describeExpectedAnswer } from '../utils/answerMatching';
+import { toPercentStyle, toPercentPoint, toImagePoint, toShapeStyle, toSvgPolygonPoints, containsPoint } from '../utils/geometry';
+import { normalizeShortcut, shortcutFromEvent, isShortcutAttempt } from '../utils/shortcuts';
 
 export interface TestFramePlayerRef {
   triggerMistakeFlash: () => void;
@@ -12,34 +15,92 @@ interface ClickCoordinates {
 
 interface TestFramePlayerProps {
   frame: FrameData;
+  imageUrl: string | null; // Null while the image loads
+  imageError?: boolean;
   onInputChange: (boxId: string, value: string) => void;
-  onHotspotInteraction: (boxId: string) => void;
+  onHotspotInteraction: (boxId: string, coords?: ClickCoordinates) => void;
   onFrameClickMistake: (coords: ClickCoordinates) => void;
-  onInputBlur: () => void;
+  onInputBlur: (boxId: string) => void;
+  onPointerMove?: (coords: ClickCoordinates) => void;
+  onWrongGesture?: (boxId: string, coords?: ClickCoordinates) => void; // e.g. a left click on a right-click target
+  onCheckboxChange?: (boxId: string, checked: boolean) => void;
+  onDragEnd?: (boxId: string, coords: ClickCoordinates, onTarget: boolean) => void;
+  onShortcut?: (keys: string, boxId: string | null) => void; // boxId is null for a combination no shortcut box expects
+  onInputPaste?: (boxId: string, text: string) => void; // Reported only; the paste itself goes ahead
   userInputsForFrame: Record<string, string>;
   userHotspotsClickedForFrame: Record<string, boolean>;
+  userCheckedForFrame?: Record<string, boolean>;
+  userCompletedForFrame?: Record<string, boolean>;
   showResults: boolean;
   backgroundMistakesForFrame?: ClickCoordinates[];
   justClickedHotspotId?: string | null;
+  revealedHotspotId?: string | null; // Practice mode: highlights the hotspot to click next
 }
 
+// How long the pointer has to rest on a hover target to activate it.
+const HOVER_DWELL_MS = 600;
+
+const actionLabels: Record<string, string> = {
+  doubleClick: 'Double-click',
+  rightClick: 'Right-click',
+  hover: 'Hover',
+};
+
 const TestFramePlayer = forwardRef<TestFramePlayerRef, TestFramePlayerProps>(({
   frame,
+  imageUrl,
+  imageError = false,
   onInputChange,
   onHotspotInteraction,
   onFrameClickMistake,
   onInputBlur,
+  onPointerMove,
+  onWrongGesture,
+  onCheckboxChange,
+  onDragEnd,
+  onShortcut,
+  onInputPaste,
   userInputsForFrame,
   userHotspotsClickedForFrame,
+  userCheckedForFrame = {},
+  userCompletedForFrame = {},
   showResults,
   backgroundMistakesForFrame,
   justClickedHotspotId,
+  revealedHotspotId,
 }, ref) => {
   const [showMistakeFlash, setShowMistakeFlash] = useState(false);
+  const [drag, setDrag] = useState<{ boxId: string, point: ClickCoordinates } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const hoverTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearHoverTimer = () => {
+    if (hoverTimerRef.current) clearTimeout(hoverTimerRef.current);
+    hoverTimerRef.current = null;
+  };
 
   useEffect(() => {
     setShowMistakeFlash(false);
+    setDrag(null);
+    return clearHoverTimer;
   }, [frame.id]);
+
+  // Shortcut steps listen on the whole window so they work wherever focus is.
+  useEffect(() => {
+    const shortcutBoxes = frame.boxes.filter((b): b is ShortcutBox => b.type === BoxType.SHORTCUT);
+    if (showResults || !onShortcut || shortcutBoxes.length === 0) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const keys = shortcutFromEvent(event);
+      if (!keys) return;
+      const match = shortcutBoxes.find(b => normalizeShortcut(b.keys) === keys);
+      // Plain typing is not an attempt at a shortcut.
+      if (!match && !isShortcutAttempt(event)) return;
+      event.preventDefault();
+      onShortcut(keys, match?.id ?? null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [frame, showResults, onShortcut]);
   
   useImperativeHandle(ref, () => ({
     triggerMistakeFlash: () => {
@@ -48,78 +109,162 @@ const TestFramePlayer = forwardRef<TestFramePlayerRef, TestFramePlayerProps>(({
     },
   }));
 
+  const toFrameCoordinates = (event: React.MouseEvent | React.PointerEvent): ClickCoordinates | undefined => {
+    if (!containerRef.current) return undefined;
+    const rect = containerRef.current.getBoundingClientRect();
+    return toImagePoint(event.clientX, event.clientY, rect, frame.originalWidth, frame.originalHeight);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (showResults || !onPointerMove) return;
+    const coords = toFrameCoordinates(event);
+    if (coords) onPointerMove(coords);
+  };
+
+  // Activates a hotspot if the event happened inside its real shape; a click in
+  // the corner of an ellipse's box counts as a background click. This backs up
+  // the browser's own hit testing, which older engines skip for clip paths.
+  const activateHotspot = (box: HotspotBox, event: React.MouseEvent) => {
+    const coords = toFrameCoordinates(event);
+    if (coords && !containsPoint(box, coords)) {
+      onFrameClickMistake(coords);
+      return;
+    }
+    onHotspotInteraction(box.id, coords);
+  };
+
+  const handleHotspotClick = (box: HotspotBox, event: React.MouseEvent) => {
+    event.stopPropagation();
+    if (showResults) return;
+    const action = box.action ?? 'click';
+    if (action === 'click') activateHotspot(box, event);
+    else if (action === 'rightClick') onWrongGesture?.(box.id, toFrameCoordinates(event));
+    // Single clicks on double-click and hover targets are part of reaching them, not mistakes.
+  };
+
+  const handleHotspotContextMenu = (box: HotspotBox, event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (showResults) return;
+    if (box.action === 'rightClick') activateHotspot(box, event);
+    else onWrongGesture?.(box.id, toFrameCoordinates(event));
+  };
+
+  const handleHotspotPointerEnter = (box: HotspotBox) => {
+    if (showResults || box.action !== 'hover') return;
+    clearHoverTimer();
+    hoverTimerRef.current = setTimeout(() => onHotspotInteraction(box.id), HOVER_DWELL_MS);
+  };
+
+  const handleDragStart = (box: DragBox, event: React.PointerEvent<HTMLDivElement>) => {
+    if (showResults || userCompletedForFrame[box.id]) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toFrameCoordinates(event);
+    if (point) setDrag({ boxId: box.id, point });
+  };
+
+  const handleDragMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const point = toFrameCoordinates(event);
+    if (point) setDrag({ ...drag, point });
+  };
+
+  const handleDragEnd = (box: DragBox, event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag || drag.boxId !== box.id) return;
+    setDrag(null);
+    const point = toFrameCoordinates(event);
+    // A press and release without moving off the source is not a drop attempt.
+    if (!point || containsPoint(box, point)) return;
+    onDragEnd?.(box.id, point, containsPoint(box.to, point));
+  };
+
   const handleContainerClick = (event: React.MouseEvent<HTMLDivElement>) => {
     if (showResults) return;
     const target = event.target as HTMLElement;
     // Check if click was on the background, not on an interactive element
     if (target.dataset.interactiveType !== 'hotspot' && target.closest('[data-interactive-type="input-area"]') === null) {
         const rect = event.currentTarget.getBoundingClientRect();
-        const x = event.clientX - rect.left;
-        const y = event.clientY - rect.top;
-
-        const originalX = (x / rect.width) * frame.originalWidth;
-        const originalY = (y / rect.height) * frame.originalHeight;
-        
-        onFrameClickMistake({ x: originalX, y: originalY });
+        onFrameClickMistake(toImagePoint(event.clientX, event.clientY, rect, frame.originalWidth, frame.originalHeight));
     }
   };
 
   return (
     <div
+      ref={containerRef}
       className={`relative w-full bg-gray-800 rounded-lg overflow-hidden shadow-lg ${showMistakeFlash ? 'mistake-flash-animation' : ''}`}
       style={{ aspectRatio: `${frame.originalWidth} / ${frame.originalHeight}` }}
       onClick={handleContainerClick}
+      onPointerMove={handlePointerMove}
       role="group"
       aria-label={`Test frame content area for frame ID: ${frame.id.substring(0,8)}`}
     >
-      <img
-        src={frame.imageDataUrl}
-        alt={`Test Frame ${frame.id.substring(0, 8)}`}
-        className="block w-full h-auto pointer-events-none"
-        draggable="false"
-      />
-      {frame.boxes.map((box) => {
-        const boxStyle: React.CSSProperties = {
-          position: 'absolute',
-          left: `${(box.x / frame.originalWidth) * 100}%`,
-          top: `${(box.y / frame.originalHeight) * 100}%`,
-          width: `${(box.w / frame.originalWidth) * 100}%`,
-          height: `${(box.h / frame.originalHeight) * 100}%`,
-        };
-        
+      {imageUrl ? (
+        <img
+          src={imageUrl}
+          alt={`Test Frame ${frame.id.substring(0, 8)}`}
+          className="block w-full h-auto pointer-events-none"
+          draggable="false"
+        />
+      ) : (
+        <div className={`absolute inset-0 flex items-center justify-center text-gray-400 ${imageError ? '' : 'animate-pulse'}`} role="status">
+          {imageError ? `The image "${frame.imageFileName}" could not be loaded.` : 'Loading image...'}
+        </div>
+      )}
+      {imageUrl && frame.boxes.map((box) => {
+        if (box.type === BoxType.SHORTCUT) return null;
+        const boxStyle = toPercentStyle(box, frame.originalWidth, frame.originalHeight);
+
         if (box.type === BoxType.HOTSPOT) {
           let hotspotClasses = 'transition-all duration-150 flex items-center justify-center';
           let icon = null;
+          // Clip paths hide a polygon's border, so its review state is outlined separately.
+          let outlineColor: string | null = null;
 
           if (showResults) {
             hotspotClasses += ' cursor-default';
             if (userHotspotsClickedForFrame[box.id]) {
               hotspotClasses += ' bg-green-500/40 border-2 border-green-400 rounded-md';
+              outlineColor = '#4ade80';
               icon = <span className="text-white text-2xl font-bold select-none" aria-label="Correctly clicked">✓</span>;
-            } else {
+            } else if (!box.mistake) {
+              // Distractors are left unmarked; clicks on them are shown as mistakes instead.
               hotspotClasses += ' bg-yellow-500/40 border-2 border-yellow-400 rounded-md';
+              outlineColor = '#facc15';
               icon = <span className="text-white text-2xl font-bold select-none" aria-label="Missed hotspot">!</span>;
             }
           } else {
             hotspotClasses += ` cursor-pointer bg-transparent focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-yellow-400 rounded-md`;
             if (justClickedHotspotId === box.id) {
               hotspotClasses += ' outline outline-4 outline-green-400 bg-green-500/50';
+            } else if (revealedHotspotId === box.id) {
+              hotspotClasses += ' border-2 border-yellow-300 bg-yellow-400/30 animate-pulse';
             }
           }
 
           return (
             <div
               key={box.id}
-              style={boxStyle}
+              style={{ ...boxStyle, ...toShapeStyle(box) }}
               className={hotspotClasses}
-              onClick={(e) => { e.stopPropagation(); if (!showResults) onHotspotInteraction(box.id); }}
-              onKeyDown={(e) => { if (!showResults && (e.key === 'Enter' || e.key === ' ')) { e.stopPropagation(); onHotspotInteraction(box.id); }}}
-              title={box.label}
+              onClick={(e) => handleHotspotClick(box, e)}
+              onDoubleClick={(e) => { e.stopPropagation(); if (!showResults && box.action === 'doubleClick') activateHotspot(box, e); }}
+              onContextMenu={(e) => handleHotspotContextMenu(box, e)}
+              onPointerEnter={() => handleHotspotPointerEnter(box)}
+              onPointerLeave={clearHoverTimer}
+              // The context menu key reaches right-click targets through onContextMenu.
+              onKeyDown={(e) => { if (!showResults && box.action !== 'rightClick' && (e.key === 'Enter' || e.key === ' ')) { e.stopPropagation(); onHotspotInteraction(box.id); }}}
+              title={box.action && box.action !== 'click' ? `${actionLabels[box.action]}: ${box.label}` : box.label}
               role="button"
               tabIndex={showResults ? -1 : 0}
-              aria-label={`Hotspot: ${box.label}`}
+              aria-label={`${box.action && box.action !== 'click' ? `${actionLabels[box.action]} target` : 'Hotspot'}: ${box.label}`}
               data-interactive-type="hotspot"
             >
+              {box.shape === 'polygon' && outlineColor && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+                  <polygon points={toSvgPolygonPoints(box)} fill="none" stroke={outlineColor} strokeWidth={4} vectorEffect="non-scaling-stroke" />
+                </svg>
+              )}
               {icon}
             </div>
           );
@@ -127,11 +272,10 @@ const TestFramePlayer = forwardRef<TestFramePlayerRef, TestFramePlayerProps>(({
 
         if (box.type === BoxType.INPUT) {
           const userAnswer = userInputsForFrame[box.id] ?? '';
-          const expectedAnswer = (box as InputBox).expected;
+          const isCorrect = isAnswerCorrect(box as InputBox, userAnswer);
           let ringClass = 'ring-purple-500';
 
           if (showResults) {
-            const isCorrect = userAnswer.trim().toLowerCase() === expectedAnswer.trim().toLowerCase();
             ringClass = isCorrect ? 'ring-green-500' : 'ring-red-500';
           }
 
@@ -147,7 +291,8 @@ const TestFramePlayer = forwardRef<TestFramePlayerRef, TestFramePlayerProps>(({
                 type="text"
                 value={userAnswer}
                 onChange={(e) => !showResults && onInputChange(box.id, e.target.value)}
-                onBlur={() => !showResults && onInputBlur()}
+                onBlur={() => !showResults && onInputBlur(box.id)}
+                onPaste={(e) => !showResults && onInputPaste?.(box.id, e.clipboardData.getData('text'))}
                 readOnly={showResults}
                 placeholder={!showResults ? box.label : ''}
                 title={box.label}
@@ -157,22 +302,133 @@ const TestFramePlayer = forwardRef<TestFramePlayerRef, TestFramePlayerProps>(({
                {showResults && (
                  <div className="absolute -bottom-7 left-0 text-xs px-1.5 py-0.5 rounded-sm shadow-md whitespace-nowrap bg-gray-900 text-white z-10">
                     Your answer: <span className="font-semibold">{userAnswer || '""'}</span>
-                    {userAnswer.trim().toLowerCase() !== expectedAnswer.trim().toLowerCase() && (
-                      <> | Expected: <span className="font-semibold">{expectedAnswer}</span></>
+                    {!isCorrect && (
+                      <> | Expected: <span className="font-semibold">{describeExpectedAnswer(box as InputBox)}</span></>
                     )}
                  </div>
               )}
             </div>
           );
         }
+        if (box.type === BoxType.SELECT) {
+          const userAnswer = userInputsForFrame[box.id] ?? '';
+          const isCorrect = userAnswer === box.expected;
+          const ringClass = showResults ? (isCorrect ? 'ring-green-500' : 'ring-red-500') : 'ring-purple-500';
+
+          return (
+            <div
+              key={box.id}
+              style={boxStyle}
+              className={`absolute flex p-0.5 rounded-md ring-2 ring-offset-2 ring-offset-gray-800/80 transition-shadow ${ringClass}`}
+              onClick={(e) => e.stopPropagation()}
+              data-interactive-type="input-area"
+            >
+              <select
+                value={userAnswer}
+                onChange={(e) => !showResults && onInputChange(box.id, e.target.value)}
+                disabled={showResults}
+                title={box.label}
+                aria-label={`Choice for ${box.label}.`}
+                className="w-full h-full px-2 text-base bg-white/90 focus:bg-white text-black outline-none border-none rounded-sm"
+              >
+                <option value="" disabled>{box.label}</option>
+                {box.options.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              {showResults && (
+                <div className="absolute -bottom-7 left-0 text-xs px-1.5 py-0.5 rounded-sm shadow-md whitespace-nowrap bg-gray-900 text-white z-10">
+                  Your choice: <span className="font-semibold">{userAnswer || 'none'}</span>
+                  {!isCorrect && <> | Expected: <span className="font-semibold">{box.expected}</span></>}
+                </div>
+              )}
+            </div>
+          );
+        }
+
+        if (box.type === BoxType.CHECKBOX) {
+          const isChecked = userCheckedForFrame[box.id] ?? false;
+          const isCorrect = isChecked === box.expected;
+
+          return (
+            <div
+              key={box.id}
+              style={boxStyle}
+              className={`absolute flex items-center justify-center rounded-md ${showResults ? `ring-2 ring-offset-2 ring-offset-gray-800/80 ${isCorrect ? 'ring-green-500' : 'ring-red-500'}` : ''}`}
+              onClick={(e) => e.stopPropagation()}
+              data-interactive-type="input-area"
+            >
+              <input
+                type="checkbox"
+                checked={isChecked}
+                onChange={(e) => !showResults && onCheckboxChange?.(box.id, e.target.checked)}
+                disabled={showResults}
+                title={box.label}
+                aria-label={box.label}
+                className="w-full h-full accent-purple-600 cursor-pointer disabled:cursor-default"
+              />
+              {showResults && !isCorrect && (
+                <div className="absolute -bottom-7 left-0 text-xs px-1.5 py-0.5 rounded-sm shadow-md whitespace-nowrap bg-gray-900 text-white z-10">
+                  Should be {box.expected ? 'checked' : 'unchecked'}
+                </div>
+              )}
+            </div>
+          );
+        }
+
+        if (box.type === BoxType.DRAG) {
+          const isCompleted = !!userCompletedForFrame[box.id];
+          const targetStyle = toPercentStyle(box.to, frame.originalWidth, frame.originalHeight);
+          // The drop zone stays hidden during the test; finding it is the task.
+          return (
+            <React.Fragment key={box.id}>
+              <div
+                style={boxStyle}
+                className={`rounded-md border-2 border-dashed flex items-center justify-center select-none touch-none ${
+                  showResults ? (isCompleted ? 'border-green-400 bg-green-500/30' : 'border-yellow-400 bg-yellow-500/30')
+                  : isCompleted ? 'border-green-400 bg-green-500/30' : 'border-purple-400/70 cursor-grab active:cursor-grabbing'
+                }`}
+                onPointerDown={(e) => handleDragStart(box, e)}
+                onPointerMove={handleDragMove}
+                onPointerUp={(e) => handleDragEnd(box, e)}
+                onPointerCancel={() => setDrag(null)}
+                onClick={(e) => e.stopPropagation()}
+                title={`Drag: ${box.label}`}
+                aria-label={`Drag source: ${box.label}`}
+                data-interactive-type="hotspot"
+              >
+                {isCompleted && <span className="text-white text-2xl font-bold select-none pointer-events-none" aria-label="Dropped on target">✓</span>}
+              </div>
+              {showResults && (
+                <div
+                  style={targetStyle}
+                  className={`pointer-events-none rounded-md border-2 ${isCompleted ? 'border-green-400 bg-green-500/20' : 'border-yellow-400 bg-yellow-500/20'}`}
+                  title={`Drop target for ${box.label}`}
+                  aria-hidden="true"
+                />
+              )}
+            </React.Fragment>
+          );
+        }
+
         return null;
       })}
+      {drag && (
+        <div
+          style={toPercentPoint(drag.point, frame.originalWidth, frame.originalHeight)}
+          className="absolute w-6 h-6 -translate-x-1/2 -translate-y-1/2 rounded-full bg-purple-500/70 ring-2 ring-white pointer-events-none"
+          aria-hidden="true"
+        />
+      )}
+      {showResults && frame.boxes.some(box => box.type === BoxType.SHORTCUT) && (
+        <ul className="absolute top-2 left-2 flex flex-col gap-1 text-xs z-10">
+          {frame.boxes.filter((box): box is ShortcutBox => box.type === BoxType.SHORTCUT).map(box => (
+            <li key={box.id} className={`px-2 py-1 rounded-sm shadow-md text-white ${userCompletedForFrame[box.id] ? 'bg-green-700' : 'bg-yellow-700'}`}>
+              {box.label}: <span className="font-mono font-semibold">{box.keys}</span> {userCompletedForFrame[box.id] ? '✓ pressed' : '! not pressed'}
+            </li>
+          ))}
+        </ul>
+      )}
       {showResults && backgroundMistakesForFrame?.map((mistake, index) => {
-        const mistakeStyle: React.CSSProperties = {
-            position: 'absolute',
-            left: `${(mistake.x / frame.originalWidth) * 100}%`,
-            top: `${(mistake.y / frame.originalHeight) * 100}%`,
-        };
+        const mistakeStyle = toPercentPoint(mistake, frame.originalWidth, frame.originalHeight);
         return (
             <div
               key={`mistake-${index}`}
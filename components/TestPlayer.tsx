@@ -1,43 +1,33 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { FrameData, BoxType, InputBox, HotspotBox, LeaderboardEntry } from '../types';
+import { FrameData, BoxType, HotspotBox, LeaderboardEntry, MistakeKind, TestConfig, UserAnswer, BackgroundMistake, SequenceState, SessionEvent } from '../types';
 import TestFramePlayer, { TestFramePlayerRef } from './TestFramePlayer';
+import { scoreAttempt, ScoreResult } from '../utils/scoring';
+import { fetchLeaderboard as requestLeaderboard, requestSeed, submitAttempt } from '../utils/leaderboardClient';
+import { buildSessionLog, SessionEventPayload, POINTER_SAMPLE_INTERVAL_MS } from '../utils/sessionLog';
+import { downloadBlob } from '../utils/download';
+import { renderCertificate } from '../utils/certificate';
+import { buildResultsReport, reportToCsv } from '../utils/resultsReport';
+import { PrintableReport } from './PrintableReport';
+import { SessionReplay } from './SessionReplay';
+import { FrameImageLoader, useFrameImage } from '../utils/frameImages';
+import { isBranchingFlow, getNextFrameId, getRouteTaken, hasCompletionTasks, isFrameComplete, selectFrames } from '../utils/testFlow';
+import { createSeed } from '../utils/random';
+import { describeIntegritySummary, IntegrityObservation, requestFullscreen, summarizeIntegrity, useIntegrityMonitor, wantsFullscreen, DEFAULT_MAX_VIOLATIONS } from '../utils/integrity';
+import { AttemptCheckpoint, saveCheckpoint, getLatestCheckpoint, deleteCheckpoint, pruneCachedPackages } from '../utils/attemptStorage';
 import { ChevronLeftIcon, ChevronRightIcon, ShareIcon, ClockIcon, TrophyIcon } from './icons';
 
 interface TestPlayerProps {
   frames: FrameData[];
+  frameImages: FrameImageLoader;
+  testConfig: TestConfig;
+  testId?: string | null;
   onExitTest: () => void;
   shareableLink?: string;
   testUrl?: string | null;
 }
 
-interface UserAnswer {
-  inputs: Record<string, string>;
-  hotspotsClicked: Record<string, boolean>;
-}
-
-interface BackgroundMistake {
-    x: number;
-    y: number;
-}
-
-interface SequenceState {
-    nextOrder: number;
-}
-
-// IMPORTANT: Leaderboard functionality requires a backend endpoint.
-// 1. Create a Google Apps Script Web App.
-// 2. It should handle a POST request to add a score and a GET request to fetch scores.
-// 3. Replace the placeholder URL below with your actual deployed Web App URL.
-const GOOGLE_SHEET_WEB_APP_URL = `https://script.google.com/macros/s/AKfycbwgEnUUGRvjOYnt46yoxEUFXw8yTMfwa9JS3rSUETyyYMyJT2CjpMmTG4QlSwdcrIDC/exec`;
-
-const maskEmail = (email?: string): string => {
-    if (!email || !email.includes('@')) return 'Anonymous';
-    const [name, domain] = email.split('@');
-    if (name.length <= 3) return `${name[0]}***@${domain}`;
-    return `${name.substring(0, 3)}***@${domain}`;
-};
-
-const LeaderboardDisplay: React.FC<{ data: LeaderboardEntry[], currentUserEmail: string, formatTime: (t: number) => string }> = ({ data, currentUserEmail, formatTime }) => (
+// Listed emails come masked from the results API, so the candidate's own result is picked out by when it was recorded.
+const LeaderboardDisplay: React.FC<{ data: LeaderboardEntry[], recordedAt?: string, formatTime: (t: number) => string }> = ({ data, recordedAt, formatTime }) => (
     <div className="w-full mt-4 p-4 md:p-6 bg-gray-800 rounded-lg shadow-lg border border-gray-700">
         <h3 className="text-2xl font-bold text-center mb-4 text-purple-400 flex items-center justify-center gap-2">
             <TrophyIcon /> Leaderboard
@@ -54,9 +44,9 @@ const LeaderboardDisplay: React.FC<{ data: LeaderboardEntry[], currentUserEmail:
                 </thead>
                 <tbody>
                     {data.length > 0 ? data.map((entry, index) => (
-                        <tr key={index} className={`border-b border-gray-700 ${entry.email === currentUserEmail ? 'bg-purple-900/50' : ''}`}>
+                        <tr key={index} className={`border-b border-gray-700 ${entry.timestamp === recordedAt ? 'bg-purple-900/50' : ''}`}>
                             <td className="p-3 font-bold">{index + 1}</td>
-                            <td className="p-3">{maskEmail(entry.email)}</td>
+                            <td className="p-3">{entry.email}</td>
                             <td className="p-3 text-right font-mono">{entry.score} / {entry.totalPossible}</td>
                             <td className="p-3 text-right font-mono">{formatTime(entry.time)}</td>
                         </tr>
@@ -72,10 +62,61 @@ const LeaderboardDisplay: React.FC<{ data: LeaderboardEntry[], currentUserEmail:
 );
 
 
-export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shareableLink, testUrl }) => {
+// Countdowns turn yellow in their last quarter and red when ten seconds remain.
+const countdownTone = (remaining: number, limit: number) => {
+    if (remaining <= 10) return 'text-red-400 animate-pulse';
+    if (remaining <= limit / 4) return 'text-yellow-400';
+    return 'text-gray-200';
+};
+
+// Practice mode reveals the next hotspot after this many mistakes on a frame unless the manifest says otherwise.
+const DEFAULT_REVEAL_AFTER_MISTAKES = 3;
+
+// How many of the following frames have their images loaded ahead of time.
+const PREFETCH_FRAMES = 3;
+
+const ScoreBreakdown: React.FC<{ result: ScoreResult, frames: FrameData[], frameTimeSpent: Record<string, number>, formatTime: (t: number) => string }> = ({ result, frames, frameTimeSpent, formatTime }) => (
+    <div className="overflow-x-auto max-h-64 mt-3">
+        <table className="w-full text-sm text-left min-w-[400px]">
+            <thead className="sticky top-0 bg-gray-800">
+                <tr className="border-b border-gray-600 text-gray-300">
+                    <th className="p-2 font-semibold">Frame</th>
+                    <th className="p-2 font-semibold text-right">Earned</th>
+                    <th className="p-2 font-semibold text-right">Mistakes</th>
+                    <th className="p-2 font-semibold text-right">Penalty</th>
+                    <th className="p-2 font-semibold text-right">Net</th>
+                    <th className="p-2 font-semibold text-right">Time</th>
+                </tr>
+            </thead>
+            <tbody>
+                {result.frames.map(frameScore => {
+                    const frameIndex = frames.findIndex(f => f.id === frameScore.frameId);
+                    return (
+                    <tr key={frameScore.frameId} className="border-b border-gray-700 text-gray-400">
+                        <td className="p-2 truncate max-w-[12rem]" title={frames[frameIndex]?.imageFileName}>{frameIndex + 1}. {frames[frameIndex]?.imageFileName}</td>
+                        <td className="p-2 text-right font-mono">{frameScore.earned} / {frameScore.possible}</td>
+                        <td className="p-2 text-right font-mono">{frameScore.hotspotMistakes + frameScore.backgroundMistakes}</td>
+                        <td className="p-2 text-right font-mono text-red-400">{frameScore.penalty > 0 ? `-${frameScore.penalty}` : '0'}</td>
+                        <td className="p-2 text-right font-mono">{frameScore.earned - frameScore.penalty}</td>
+                        <td className={`p-2 text-right font-mono ${frameScore.timedOut ? 'text-red-400' : ''}`}>
+                            {formatTime(frameTimeSpent[frameScore.frameId] ?? 0)}{frameScore.timedOut && ' (timed out)'}
+                        </td>
+                    </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+    </div>
+);
+
+
+export const TestPlayer: React.FC<TestPlayerProps> = ({ frames: allFrames, frameImages, testConfig, testId, onExitTest, shareableLink, testUrl }) => {
+  // Tests with sections serve each attempt its own selection and order of frames, which the seed reproduces.
+  const [seed, setSeed] = useState(createSeed);
+  const frames = useMemo(() => selectFrames(allFrames, testConfig.sections, seed), [allFrames, testConfig.sections, seed]);
   const [currentFrameIdx, setCurrentFrameIdx] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<string, UserAnswer>>(
-    () => frames.reduce((acc, frame) => {
+    () => allFrames.reduce((acc, frame) => {
       acc[frame.id] = { inputs: {}, hotspotsClicked: {} };
       return acc;
     }, {} as Record<string, UserAnswer>)
@@ -83,40 +124,268 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
   const [showResults, setShowResults] = useState(false);
   const [justClickedHotspotId, setJustClickedHotspotId] = useState<string | null>(null);
   const [frameMistakes, setFrameMistakes] = useState<Record<string, boolean>>({});
-  const [hotspotMistakeCount, setHotspotMistakeCount] = useState<number>(0);
   const [backgroundMistakes, setBackgroundMistakes] = useState<Record<string, BackgroundMistake[]>>({});
-  const [backgroundMistakeCount, setBackgroundMistakeCount] = useState<number>(0);
+  // Mistakes per frame in the order they happened, for scoring policies that escalate penalties.
+  const [mistakeLog, setMistakeLog] = useState<Record<string, MistakeKind[]>>({});
   const [copiedLink, setCopiedLink] = useState(false);
   const [sequenceState, setSequenceState] = useState<Record<string, SequenceState>>({});
   const [elapsedTime, setElapsedTime] = useState(0);
+  // Seconds spent on each frame, and the frames whose own time limit ran out.
+  const [frameTimeSpent, setFrameTimeSpent] = useState<Record<string, number>>({});
+  const [timedOutFrames, setTimedOutFrames] = useState<Record<string, boolean>>({});
   const [testStarted, setTestStarted] = useState(false);
+  // Practice attempts offer hints and retries and are kept off the leaderboard.
+  const [isPractice, setIsPractice] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [hintsUsed, setHintsUsed] = useState<Record<string, number>>({});
+  const [visibleHint, setVisibleHint] = useState<string | null>(null);
+  // Frames in the order they were visited; reviewing a branching test walks this path.
+  const [path, setPath] = useState<string[]>([]);
+  const [reviewStep, setReviewStep] = useState(0);
+  const isBranching = useMemo(() => isBranchingFlow(frames), [frames]);
   const [userEmail, setUserEmail] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
   
   const [isSubmittingScore, setIsSubmittingScore] = useState(false);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardEntry[] | null>(null);
+  // The result as the results API scored and stored it. It is the one that counts, and the one a certificate shows.
+  const [recordedResult, setRecordedResult] = useState<LeaderboardEntry | null>(null);
+  const [certificateError, setCertificateError] = useState<string | null>(null);
   const [isFetchingLeaderboard, setIsFetchingLeaderboard] = useState(false);
   const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<AttemptCheckpoint | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  // Set when integrity monitoring blocks the test; the clock keeps running until the candidate returns.
+  const [isIntegrityBlocked, setIsIntegrityBlocked] = useState(false);
 
   const framePlayerRef = useRef<TestFramePlayerRef>(null);
+  // The interaction log lives in a ref: pointer samples arrive too often to re-render for each one.
+  const eventsRef = useRef<SessionEvent[]>([]);
+  const lastPointerSampleRef = useRef(0);
+  // Set once the attempt has been recorded, so a failed leaderboard refresh does not submit it again.
+  const hasSubmittedRef = useRef(false);
+  // The part of a second not yet on the clock when the frame changed.
+  const uncountedMsRef = useRef(0);
+  // When the clock last counted a whole second, and a way to bring it up to date; see the clock effect.
+  const countedUntilRef = useRef(0);
+  const syncClockRef = useRef<(() => void) | null>(null);
+  const integrityViolationsRef = useRef(0);
+  const integritySettings = testConfig.integrity;
+
+  useEffect(() => {
+    if (!testId) return;
+    let cancelled = false;
+    getLatestCheckpoint(testId)
+      .then(checkpoint => { if (!cancelled) setPendingCheckpoint(checkpoint); })
+      .catch(err => console.warn('Could not read saved attempts:', err));
+    return () => { cancelled = true; };
+  }, [testId]);
+
+  // Checkpoint the attempt after every change so a refresh or crash loses nothing.
+  useEffect(() => {
+    if (!testId || !testStarted || showResults || !userEmail) return;
+    saveCheckpoint(testId, userEmail, {
+      currentFrameIdx,
+      userAnswers,
+      sequenceState,
+      frameMistakes,
+      backgroundMistakes,
+      mistakeLog,
+      elapsedTime,
+      frameTimeSpent,
+      timedOutFrames,
+      practice: isPractice,
+      hintsUsed,
+      path,
+      events: [...eventsRef.current],
+      seed,
+    }).catch(err => console.warn('Could not save attempt checkpoint:', err));
+  }, [testId, testStarted, showResults, userEmail, currentFrameIdx, userAnswers, sequenceState, frameMistakes, backgroundMistakes, mistakeLog, elapsedTime, frameTimeSpent, timedOutFrames, isPractice, hintsUsed, path, seed]);
+
+  // The attempt is final once results are shown, so there is nothing left to resume.
+  useEffect(() => {
+    if (!testId || !showResults || !userEmail) return;
+    deleteCheckpoint(testId, userEmail)
+      .then(() => pruneCachedPackages())
+      .catch(err => console.warn('Could not clear attempt checkpoint:', err));
+  }, [testId, showResults, userEmail]);
+
+  const handleResume = useCallback(() => {
+    if (!pendingCheckpoint) return;
+    const checkpoint = pendingCheckpoint;
+    // The resumed attempt keeps serving the frames it started with.
+    const resumedSeed = checkpoint.seed ?? seed;
+    const resumedFrames = selectFrames(allFrames, testConfig.sections, resumedSeed);
+    setSeed(resumedSeed);
+    setUserEmail(checkpoint.email);
+    setCurrentFrameIdx(Math.min(checkpoint.currentFrameIdx, resumedFrames.length - 1));
+    setUserAnswers(prev => ({ ...prev, ...checkpoint.userAnswers }));
+    setSequenceState(checkpoint.sequenceState);
+    setFrameMistakes(checkpoint.frameMistakes);
+    setBackgroundMistakes(checkpoint.backgroundMistakes);
+    setMistakeLog(checkpoint.mistakeLog);
+    setElapsedTime(checkpoint.elapsedTime);
+    setFrameTimeSpent(checkpoint.frameTimeSpent ?? {});
+    setTimedOutFrames(checkpoint.timedOutFrames ?? {});
+    setIsPractice(checkpoint.practice ?? false);
+    setHintsUsed(checkpoint.hintsUsed ?? {});
+    eventsRef.current = checkpoint.events ?? [];
+    const frameIdx = Math.min(checkpoint.currentFrameIdx, resumedFrames.length - 1);
+    setPath(checkpoint.path ?? resumedFrames.slice(0, frameIdx + 1).map(frame => frame.id));
+    eventsRef.current.push({ type: 'test-start', time: Date.now(), frameId: resumedFrames[frameIdx].id });
+    if (integritySettings && !checkpoint.practice) {
+      integrityViolationsRef.current = summarizeIntegrity(eventsRef.current, integritySettings).violations;
+      if (wantsFullscreen(integritySettings)) requestFullscreen();
+    }
+    setPendingCheckpoint(null);
+    setTestStarted(true);
+  }, [pendingCheckpoint, seed, allFrames, testConfig.sections, integritySettings]);
+
+  const handleStart = useCallback(async () => {
+    // Asked for before waiting on the server, while the click still allows it.
+    if (integritySettings && !isPractice && wantsFullscreen(integritySettings)) requestFullscreen();
+    let startFrames = frames;
+    // The leaderboard only records assessments of tests with sections served from a seed it issued.
+    if (testConfig.sections && !isPractice && testUrl) {
+      setIsStarting(true);
+      setStartError(null);
+      try {
+        const issuedSeed = await requestSeed(testUrl, userEmail);
+        startFrames = selectFrames(allFrames, testConfig.sections, issuedSeed);
+        setSeed(issuedSeed);
+      } catch (err) {
+        console.error('Seed request failed:', err);
+        setStartError(err instanceof Error ? err.message : 'Could not start the attempt.');
+        if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+        return;
+      } finally {
+        setIsStarting(false);
+      }
+    }
+    eventsRef.current = [{ type: 'test-start', time: Date.now(), frameId: startFrames[0].id }];
+    integrityViolationsRef.current = 0;
+    setPath([startFrames[0].id]);
+    setPendingCheckpoint(null);
+    setTestStarted(true);
+  }, [frames, allFrames, testConfig.sections, testUrl, userEmail, integritySettings, isPractice]);
+
+  const handleDiscardCheckpoint = useCallback(() => {
+    if (!pendingCheckpoint || !testId) return;
+    deleteCheckpoint(testId, pendingCheckpoint.email).catch(err => console.warn('Could not discard attempt checkpoint:', err));
+    setPendingCheckpoint(null);
+  }, [pendingCheckpoint, testId]);
 
   useEffect(() => {
     if (showResults || !testStarted) {
         return;
     }
 
-    const timerId = setInterval(() => {
-        setElapsedTime(prevTime => prevTime + 1);
-    }, 1000);
+    // The clock follows Date.now() rather than counting ticks: browsers slow
+    // timers down in background tabs, and the submitted time has to agree with
+    // the session's event times.
+    const frameId = frames[currentFrameIdx].id;
+    countedUntilRef.current = Date.now() - uncountedMsRef.current;
+    const tick = () => {
+        const seconds = Math.floor((Date.now() - countedUntilRef.current) / 1000);
+        if (seconds === 0) return;
+        countedUntilRef.current += seconds * 1000;
+        setElapsedTime(prevTime => prevTime + seconds);
+        setFrameTimeSpent(prev => ({ ...prev, [frameId]: (prev[frameId] ?? 0) + seconds }));
+    };
+    syncClockRef.current = tick;
+    const timerId = setInterval(tick, 1000);
+    // A tab brought back to the front catches up at once instead of on the next tick.
+    document.addEventListener('visibilitychange', tick);
 
-    return () => clearInterval(timerId);
-  }, [showResults, testStarted]);
+    return () => {
+        clearInterval(timerId);
+        document.removeEventListener('visibilitychange', tick);
+        tick();
+        uncountedMsRef.current = Date.now() - countedUntilRef.current;
+        syncClockRef.current = null;
+    };
+  }, [showResults, testStarted, currentFrameIdx, frames]);
 
   const currentFrameData = frames[currentFrameIdx];
   const currentUserAnswerForFrame = userAnswers[currentFrameData.id] || { inputs: {}, hotspotsClicked: {} };
+  const currentImage = useFrameImage(frameImages, currentFrameData.id);
+
+  // Loads the frames the candidate can reach next, so moving on does not wait for an image.
+  useEffect(() => {
+    const upcoming = new Set<string>();
+    frames.slice(currentFrameIdx + 1, currentFrameIdx + 1 + PREFETCH_FRAMES).forEach(frame => upcoming.add(frame.id));
+    if (currentFrameData.next) upcoming.add(currentFrameData.next);
+    currentFrameData.boxes.forEach(box => {
+      if (box.type === BoxType.HOTSPOT && box.target) upcoming.add(box.target);
+    });
+    frameImages.prefetch([...upcoming]);
+  }, [frameImages, frames, currentFrameIdx, currentFrameData]);
+
+  // Only the live attempt is recorded, not navigation during review.
+  const recordEvent = useCallback((payload: SessionEventPayload, frameId: string = currentFrameData.id) => {
+    if (!testStarted || showResults) return;
+    eventsRef.current.push({ ...payload, time: Date.now(), frameId } as SessionEvent);
+  }, [currentFrameData.id, testStarted, showResults]);
+
+  useEffect(() => {
+    if (!testStarted || showResults) return;
+    const frameId = frames[currentFrameIdx].id;
+    eventsRef.current.push({ type: 'frame-enter', time: Date.now(), frameId });
+    return () => {
+      eventsRef.current.push({ type: 'frame-leave', time: Date.now(), frameId });
+    };
+  }, [testStarted, showResults, currentFrameIdx, frames]);
+
+  // Practice attempts are never monitored.
+  const isMonitoringIntegrity = !!integritySettings && testStarted && !showResults && !isPractice;
+
+  const handleIntegrityObservation = useCallback((observation: IntegrityObservation) => {
+    if (!integritySettings) return;
+    recordEvent({ type: 'integrity', ...observation });
+    const { violations, flagged } = summarizeIntegrity(eventsRef.current, integritySettings);
+    // Each further violation past the limit blocks the test again.
+    if (integritySettings.onLimit === 'block' && flagged && violations > integrityViolationsRef.current) {
+      recordEvent({ type: 'integrity', kind: 'blocked' });
+      setIsIntegrityBlocked(true);
+    }
+    integrityViolationsRef.current = violations;
+  }, [integritySettings, recordEvent]);
+
+  useIntegrityMonitor(isMonitoringIntegrity, handleIntegrityObservation);
+
+  const handleInputPaste = useCallback((boxId: string, text: string) => {
+    if (isMonitoringIntegrity) handleIntegrityObservation({ kind: 'paste', boxId, length: text.length });
+  }, [isMonitoringIntegrity, handleIntegrityObservation]);
+
+  const handleReturnFromBlock = useCallback(() => {
+    recordEvent({ type: 'integrity', kind: 'unblocked' });
+    if (integritySettings && wantsFullscreen(integritySettings)) requestFullscreen();
+    setIsIntegrityBlocked(false);
+  }, [recordEvent, integritySettings]);
+
+  const handlePointerMove = useCallback((coords: BackgroundMistake) => {
+    const now = Date.now();
+    if (now - lastPointerSampleRef.current < POINTER_SAMPLE_INTERVAL_MS) return;
+    lastPointerSampleRef.current = now;
+    recordEvent({ type: 'pointer-move', x: coords.x, y: coords.y });
+  }, [recordEvent]);
+
+  const handleExportLog = useCallback(() => {
+    const log = buildSessionLog(eventsRef.current, {
+      testId: testId ?? null,
+      testUrl: testUrl ?? null,
+      email: userEmail,
+      seed,
+      frameIds: frames.map(frame => frame.id),
+    });
+    downloadBlob(new Blob([JSON.stringify(log, null, 2)], { type: 'application/json' }), 'session-log.json');
+  }, [testId, testUrl, userEmail, seed, frames]);
   
-  const handleMistakeOccurred = useCallback(() => {
+  const handleMistakeOccurred = useCallback((kind: MistakeKind) => {
     if (showResults || !currentFrameData) return;
+    setMistakeLog(prev => ({ ...prev, [currentFrameData.id]: [...(prev[currentFrameData.id] || []), kind] }));
     setFrameMistakes(prev => ({ ...prev, [currentFrameData.id]: true }));
     framePlayerRef.current?.triggerMistakeFlash();
   }, [currentFrameData, showResults]);
@@ -132,6 +401,43 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
     };
   }, [currentFrameData]);
 
+  // The hotspot a hint points at: the next one in a sequence, otherwise the first not yet clicked.
+  const hintTarget = useMemo(() => {
+    if (isSequential) {
+      const progress = sequenceState[currentFrameData.id] || { nextOrder: 1 };
+      return orderedHotspots.find(h => h.order === progress.nextOrder) ?? null;
+    }
+    return currentFrameData.boxes.find((b): b is HotspotBox => b.type === BoxType.HOTSPOT && !b.mistake && !currentUserAnswerForFrame.hotspotsClicked[b.id]) ?? null;
+  }, [isSequential, orderedHotspots, sequenceState, currentFrameData, currentUserAnswerForFrame]);
+
+  const revealAfterMistakes = testConfig.practice?.revealAfterMistakes ?? DEFAULT_REVEAL_AFTER_MISTAKES;
+  const isHintRevealed = isPractice && !showResults && revealAfterMistakes > 0
+    && (mistakeLog[currentFrameData.id]?.length ?? 0) >= revealAfterMistakes;
+
+  useEffect(() => {
+    setVisibleHint(null);
+  }, [currentFrameData.id]);
+
+  const handleShowHint = useCallback(() => {
+    if (!isPractice || !hintTarget) return;
+    recordEvent({ type: 'hint-shown' });
+    setHintsUsed(prev => ({ ...prev, [currentFrameData.id]: (prev[currentFrameData.id] ?? 0) + 1 }));
+    setVisibleHint(hintTarget.label);
+  }, [isPractice, hintTarget, recordEvent, currentFrameData.id]);
+
+  // Clears everything recorded on the current frame so the learner can try it again.
+  const handleRetryFrame = useCallback(() => {
+    if (!isPractice || showResults) return;
+    const frameId = currentFrameData.id;
+    recordEvent({ type: 'frame-retry' });
+    setUserAnswers(prev => ({ ...prev, [frameId]: { inputs: {}, hotspotsClicked: {} } }));
+    setSequenceState(prev => ({ ...prev, [frameId]: { nextOrder: 1 } }));
+    setFrameMistakes(prev => ({ ...prev, [frameId]: false }));
+    setBackgroundMistakes(prev => ({ ...prev, [frameId]: [] }));
+    setMistakeLog(prev => ({ ...prev, [frameId]: [] }));
+    setVisibleHint(null);
+  }, [isPractice, showResults, currentFrameData.id, recordEvent]);
+
   const handleShareClick = useCallback(() => {
     if (!shareableLink) return;
     navigator.clipboard.writeText(shareableLink).then(() => {
@@ -140,21 +446,96 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
     });
   }, [shareableLink]);
 
-  const navigate = useCallback((direction: 'next' | 'prev') => {
+  // Review starts where the attempt ended.
+  useEffect(() => {
+    if (showResults) setReviewStep(Math.max(0, path.length - 1));
+  }, [showResults, path.length]);
+
+  // `via` is the hotspot that was clicked to leave the frame, whose target may say where to go.
+  const navigate = useCallback((direction: 'next' | 'prev', via?: HotspotBox) => {
+    if (showResults && isBranching) {
+      const step = reviewStep + (direction === 'next' ? 1 : -1);
+      if (step < 0 || step >= path.length) return;
+      setReviewStep(step);
+      setCurrentFrameIdx(frames.findIndex(frame => frame.id === path[step]));
+      return;
+    }
     if (direction === 'next') {
-      if (currentFrameIdx < frames.length - 1) {
-        setCurrentFrameIdx(currentFrameIdx + 1);
+      const nextFrameId = showResults ? frames[currentFrameIdx + 1]?.id ?? null : getNextFrameId(frames, currentFrameIdx, via);
+      if (nextFrameId !== null) {
+        recordEvent({ type: 'navigate', direction, toFrameId: nextFrameId });
+        setCurrentFrameIdx(frames.findIndex(frame => frame.id === nextFrameId));
+        if (!showResults) setPath(prev => [...prev, nextFrameId]);
       } else {
+        recordEvent({ type: 'test-submit' });
         setShowResults(true);
       }
     } else if (direction === 'prev') {
       if (currentFrameIdx > 0) {
+        recordEvent({ type: 'navigate', direction, toFrameId: frames[currentFrameIdx - 1].id });
         setCurrentFrameIdx(currentFrameIdx - 1);
       }
     }
-  }, [currentFrameIdx, frames.length]);
+  }, [currentFrameIdx, frames, recordEvent, showResults, isBranching, reviewStep, path]);
+
+  const testTimeRemaining = testConfig.timeLimitSeconds !== undefined
+    ? Math.max(0, testConfig.timeLimitSeconds - elapsedTime)
+    : null;
+  const frameTimeRemaining = currentFrameData.timeLimitSeconds !== undefined
+    ? Math.max(0, currentFrameData.timeLimitSeconds - (frameTimeSpent[currentFrameData.id] ?? 0))
+    : null;
+
+  // Time limits run out on a timer set for the moment they do: the clock's
+  // one-second tick can be held back for up to a minute in background tabs.
+  useEffect(() => {
+    if (!testStarted || showResults) return;
+    const remaining = Math.min(testTimeRemaining ?? Infinity, frameTimeRemaining ?? Infinity);
+    if (remaining === 0 || remaining === Infinity) return;
+    const timerId = setTimeout(() => syncClockRef.current?.(), countedUntilRef.current + remaining * 1000 - Date.now());
+    return () => clearTimeout(timerId);
+  }, [testStarted, showResults, testTimeRemaining, frameTimeRemaining]);
+
+  // When the whole test runs out of time it is submitted as it stands.
+  useEffect(() => {
+    if (!testStarted || showResults || testTimeRemaining !== 0) return;
+    recordEvent({ type: 'time-expired', scope: 'test' });
+    setShowResults(true);
+  }, [testStarted, showResults, testTimeRemaining, recordEvent]);
+
+  // When a frame runs out of time it is scored as missed and the test moves on.
+  useEffect(() => {
+    if (!testStarted || showResults || frameTimeRemaining !== 0 || timedOutFrames[currentFrameData.id]) return;
+    recordEvent({ type: 'time-expired', scope: 'frame' });
+    setTimedOutFrames(prev => ({ ...prev, [currentFrameData.id]: true }));
+    navigate('next');
+  }, [testStarted, showResults, frameTimeRemaining, timedOutFrames, currentFrameData.id, recordEvent, navigate]);
+
+  const isAutoAdvance = currentFrameData.advance === undefined || currentFrameData.advance === 'auto';
+
+  // Moves on from an 'auto' frame once `answer`, the frame's answer after the latest interaction, completes it.
+  const advanceIfComplete = useCallback((answer: UserAnswer, delay: number) => {
+    if (!isAutoAdvance || !isFrameComplete(currentFrameData, answer)) return;
+    setTimeout(() => navigate('next', getRouteTaken(currentFrameData, answer)), delay);
+  }, [isAutoAdvance, currentFrameData, navigate]);
+
+  // Finishes the frame as it stands, for the Enter key and the Continue button.
+  const finishFrame = useCallback(() => {
+    navigate('next', getRouteTaken(currentFrameData, currentUserAnswerForFrame));
+  }, [navigate, currentFrameData, currentUserAnswerForFrame]);
+
+  useEffect(() => {
+    if (!testStarted || showResults || currentFrameData.advance !== 'enter') return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Enter' || event.repeat) return;
+      event.preventDefault();
+      finishFrame();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [testStarted, showResults, currentFrameData.advance, finishFrame]);
 
   const handleInputChange = useCallback((boxId: string, value: string) => {
+    recordEvent({ type: 'input-change', boxId, value });
     setUserAnswers(prev => ({
       ...prev,
       [currentFrameData.id]: {
@@ -162,14 +543,23 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
         inputs: { ...prev[currentFrameData.id].inputs, [boxId]: value },
       },
     }));
-  }, [currentFrameData.id]);
+  }, [currentFrameData.id, recordEvent]);
 
-  const handleHotspotInteraction = useCallback((boxId: string) => {
+  const handleHotspotInteraction = useCallback((boxId: string, coords?: BackgroundMistake) => {
     if (showResults) return;
 
     const box = currentFrameData.boxes.find(b => b.id === boxId);
     if (!box || box.type !== BoxType.HOTSPOT) return;
     const clickedHotspot = box as HotspotBox;
+    const recordHotspotEvent = (correct: boolean) => recordEvent({ type: 'hotspot-click', boxId, correct, x: coords?.x, y: coords?.y });
+
+    if (clickedHotspot.mistake) {
+        // A wrong choice: penalised, and it may lead to a screen the candidate has to recover from.
+        recordHotspotEvent(false);
+        handleMistakeOccurred('hotspot');
+        if (clickedHotspot.target !== undefined) setTimeout(() => navigate('next', clickedHotspot), 200);
+        return;
+    }
 
     const recordClick = () => {
   setUserAnswers(prev => ({
@@ -184,12 +574,22 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
   }));
   };
 
+    // Whether this click, once recorded, finishes the frame under its advance rule, and which way it leaves.
+    const answerAfterClick = { ...currentUserAnswerForFrame, hotspotsClicked: { ...currentUserAnswerForFrame.hotspotsClicked, [boxId]: true } };
+    const { advance } = currentFrameData;
+    const finishesFrame = typeof advance === 'object'
+      ? advance.hotspotId === boxId
+      : isAutoAdvance && isFrameComplete(currentFrameData, answerAfterClick);
+    const via = typeof advance === 'object' || clickedHotspot.target !== undefined
+      ? clickedHotspot
+      : getRouteTaken(currentFrameData, answerAfterClick);
 
     if (!isSequential) {
+        recordHotspotEvent(true);
         recordClick();
         setJustClickedHotspotId(boxId);
         setTimeout(() => {
-            navigate('next');
+            if (finishesFrame) navigate('next', via);
             setJustClickedHotspotId(null);
         }, 200);
         return;
@@ -202,6 +602,7 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
 
     if (isOrderedHotspot && clickedHotspot.order === progress.nextOrder) {
         // Correct click in a sequence
+        recordHotspotEvent(true);
         recordClick();
         setSequenceState(prev => ({
             ...prev,
@@ -209,25 +610,23 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
         }));
         setJustClickedHotspotId(boxId);
 
-        const isLastInSequence = progress.nextOrder === orderedHotspots.length;
-
         setTimeout(() => {
             setJustClickedHotspotId(null);
-            if (isLastInSequence) navigate('next');
+            if (finishesFrame) navigate('next', via);
         }, 200);
 
     } else {
         // Mistake: clicked an unordered hotspot or an ordered one out of sequence.
-        setHotspotMistakeCount(prev => prev + 1);
-        handleMistakeOccurred();
+        recordHotspotEvent(false);
+        handleMistakeOccurred('hotspot');
     }
-  }, [showResults, currentFrameData, navigate, isSequential, orderedHotspots, sequenceState, handleMistakeOccurred]);
+  }, [showResults, currentFrameData, currentUserAnswerForFrame, isAutoAdvance, navigate, isSequential, sequenceState, handleMistakeOccurred, recordEvent]);
 
   const handleFrameClickMistake = useCallback((coords: BackgroundMistake) => {
     if (showResults) return;
+    recordEvent({ type: 'background-click', x: coords.x, y: coords.y });
     // Only count background clicks as mistakes for scoring if frame has hotspots
     if (currentFrameData?.boxes.some(box => box.type === BoxType.HOTSPOT)) {
-        setBackgroundMistakeCount(prev => prev + 1);
         setBackgroundMistakes(prev => ({
             ...prev,
             [currentFrameData.id]: [
@@ -235,57 +634,96 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
                 coords
             ]
         }));
-        handleMistakeOccurred();
+        handleMistakeOccurred('background');
     }
-  }, [currentFrameData, handleMistakeOccurred, showResults]);
+  }, [currentFrameData, handleMistakeOccurred, showResults, recordEvent]);
 
-  const handleInputBlur = useCallback(() => {
+  const handleWrongGesture = useCallback((boxId: string, coords?: BackgroundMistake) => {
+    if (showResults) return;
+    recordEvent({ type: 'hotspot-click', boxId, correct: false, x: coords?.x, y: coords?.y });
+    handleMistakeOccurred('hotspot');
+  }, [showResults, recordEvent, handleMistakeOccurred]);
+
+  const handleCheckboxChange = useCallback((boxId: string, checked: boolean) => {
+    recordEvent({ type: 'checkbox-change', boxId, checked });
+    setUserAnswers(prev => ({
+      ...prev,
+      [currentFrameData.id]: {
+        ...prev[currentFrameData.id],
+        checked: { ...prev[currentFrameData.id]?.checked, [boxId]: checked },
+      },
+    }));
+  }, [currentFrameData.id, recordEvent]);
+
+  // Marks a drag or shortcut as done.
+  const completeAction = useCallback((boxId: string) => {
+    const frameId = currentFrameData.id;
+    setUserAnswers(prev => ({
+      ...prev,
+      [frameId]: {
+        ...prev[frameId],
+        completed: { ...prev[frameId]?.completed, [boxId]: true },
+      },
+    }));
+    advanceIfComplete({ ...currentUserAnswerForFrame, completed: { ...currentUserAnswerForFrame.completed, [boxId]: true } }, 200);
+  }, [currentFrameData.id, currentUserAnswerForFrame, advanceIfComplete]);
+
+  const handleDragEnd = useCallback((boxId: string, coords: BackgroundMistake, onTarget: boolean) => {
+    if (showResults) return;
+    recordEvent({ type: 'drag-end', boxId, correct: onTarget, x: coords.x, y: coords.y });
+    if (onTarget) completeAction(boxId);
+    else handleMistakeOccurred('hotspot');
+  }, [showResults, recordEvent, completeAction, handleMistakeOccurred]);
+
+  const handleShortcut = useCallback((keys: string, boxId: string | null) => {
+    if (showResults) return;
+    recordEvent({ type: 'shortcut', keys, boxId });
+    if (boxId) completeAction(boxId);
+    else handleMistakeOccurred('hotspot');
+  }, [showResults, recordEvent, completeAction, handleMistakeOccurred]);
+
+  const handleInputBlur = useCallback((boxId: string) => {
     if (showResults || !currentFrameData) return;
-    const isInputsOnlyFrame = 
-        currentFrameData.boxes.length > 0 && 
-        currentFrameData.boxes.every(box => box.type === BoxType.INPUT);
+    recordEvent({ type: 'input-blur', boxId, value: currentUserAnswerForFrame?.inputs[boxId] ?? '' });
+    // Only 'auto' frames move on from a blur, and only once nothing else is left to do on them.
+    advanceIfComplete(currentUserAnswerForFrame, 150);
+  }, [currentFrameData, currentUserAnswerForFrame, advanceIfComplete, showResults, recordEvent]);
 
-    if (!isInputsOnlyFrame) return;
+  const scoreResult = useMemo(
+    () => showResults ? scoreAttempt(frames, { answers: userAnswers, mistakes: mistakeLog, timedOutFrames, path: isBranching ? path : undefined }, testConfig.scoring) : null,
+    [showResults, frames, userAnswers, mistakeLog, timedOutFrames, isBranching, path, testConfig.scoring]
+  );
+  const score = scoreResult?.score ?? 0;
+  const totalPossible = scoreResult?.totalPossible ?? 0;
 
-    const inputBoxes = currentFrameData.boxes.filter(box => box.type === BoxType.INPUT);
-    const allInputsFilled = inputBoxes.every(box => {
-      const answer = currentUserAnswerForFrame?.inputs[box.id];
-      return answer && answer.trim() !== '';
-    });
+  // The event log is complete once results are shown.
+  const integritySummary = useMemo(
+    () => showResults && integritySettings && !isPractice ? summarizeIntegrity(eventsRef.current, integritySettings) : null,
+    [showResults, integritySettings, isPractice]
+  );
 
-    if (allInputsFilled) {
-      setTimeout(() => navigate('next'), 150);
-    }
-  }, [currentFrameData, currentUserAnswerForFrame, navigate, showResults]);
-
-  const { score, totalPossible } = useMemo(() => {
-    if (!showResults) return { score: 0, totalPossible: 0 };
-    let s = 0;
-    let t = 0;
-    frames.forEach(frame => {
-      const frameAnswers = userAnswers[frame.id];
-      frame.boxes.forEach(box => {
-        t++;
-        if (box.type === BoxType.INPUT) {
-          const userAnswer = frameAnswers?.inputs[box.id] ?? '';
-          if (userAnswer.trim().toLowerCase() === (box as InputBox).expected.trim().toLowerCase()) {
-            s++;
-          }
-        } else if (box.type === BoxType.HOTSPOT) {
-          // Score is based on correctly clicked hotspots, regardless of subsequent mistakes on the frame.
-          if (frameAnswers?.hotspotsClicked[box.id]) {
-            s++;
-          }
-        }
-      });
-    });
+  const resultsReport = useMemo(
+    () => scoreResult ? buildResultsReport({ frames, scoreResult, userAnswers, backgroundMistakes, elapsedTime, frameTimeSpent, email: userEmail, testUrl, metadata: testConfig, seed: testConfig.sections ? seed : undefined, practice: isPractice, hintsUsed, integrity: integritySummary ?? undefined }) : null,
+    [scoreResult, frames, userAnswers, backgroundMistakes, elapsedTime, frameTimeSpent, userEmail, testUrl, testConfig, seed, isPractice, hintsUsed, integritySummary]
+  );
 
-    const totalMistakes = hotspotMistakeCount + backgroundMistakeCount;
-    s -= totalMistakes;
+  // Once the results server has scored the attempt, its verdict replaces the player's own.
+  const passed = recordedResult ? recordedResult.passed ?? null : resultsReport?.passed ?? null;
 
-    return { score: Math.max(0, s), totalPossible: t };
-  }, [showResults, frames, userAnswers, hotspotMistakeCount, backgroundMistakeCount]);
+  const handleDownloadReport = useCallback((format: 'json' | 'csv') => {
+    if (!resultsReport) return;
+    const blob = format === 'json'
+      ? new Blob([JSON.stringify(resultsReport, null, 2)], { type: 'application/json' })
+      : new Blob([reportToCsv(resultsReport)], { type: 'text/csv' });
+    downloadBlob(blob, `results.${format}`);
+  }, [resultsReport]);
   
+  // The printable report is unmounted again once the print dialog closes, releasing its images.
+  const handlePrintReady = useCallback(() => {
+    window.addEventListener('afterprint', () => setIsPrinting(false), { once: true });
+    window.print();
+  }, []);
+
   const formatTime = (totalSeconds: number) => {
     const minutes = Math.floor(totalSeconds / 60).toString().padStart(2, '0');
     const seconds = (totalSeconds % 60).toString().padStart(2, '0');
@@ -293,25 +731,13 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
   };
 
   const fetchLeaderboard = useCallback(async () => {
-    if (!testUrl || GOOGLE_SHEET_WEB_APP_URL === 'YOUR_GOOGLE_APPS_SCRIPT_WEB_APP_URL_HERE') {
+    if (!testUrl) {
         return;
     }
     setIsFetchingLeaderboard(true);
     setLeaderboardError(null);
     try {
-        const url = new URL(GOOGLE_SHEET_WEB_APP_URL);
-        url.searchParams.append('action', 'getLeaderboard');
-        url.searchParams.append('testUrl', testUrl);
-        const proxyUrl = `https://file-proxy-cwma.onrender.com/proxy?url=${encodeURIComponent(url.toString())}`;
-        const response = await fetch(proxyUrl);
-        if (!response.ok) throw new Error('Failed to fetch leaderboard data.');
-        
-        const result = await response.json();
-        if (result.success && Array.isArray(result.data)) {
-            setLeaderboardData(result.data);
-        } else {
-            throw new Error(result.message || 'Invalid leaderboard data format.');
-        }
+        setLeaderboardData(await requestLeaderboard(testUrl));
     } catch (err) {
         console.error("Leaderboard fetch failed:", err);
         setLeaderboardError("Could not load the leaderboard.");
@@ -321,7 +747,7 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
   }, [testUrl]);
 
   useEffect(() => {
-    if (showResults && userEmail && testUrl && !leaderboardData && !isSubmittingScore && !submissionError) {
+    if (showResults && !isPractice && userEmail && testUrl && !hasSubmittedRef.current && !isSubmittingScore && !submissionError) {
         const submitScore = async () => {
     if (!testUrl) return;
 
@@ -329,25 +755,15 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
     setSubmissionError(null);
 
     try {
-        // Build query parameters for the Google Apps Script
-        const params = new URLSearchParams({
-            action: 'addScore',
+        // The server scores the attempt from its events; pointer samples play no part in that.
+        setRecordedResult(await submitAttempt(testUrl, {
             email: userEmail,
-            score: score.toString(),
-            totalPossible: totalPossible.toString(),
-            time: elapsedTime.toString(),
-            testUrl: testUrl,
-            timestamp: new Date().toISOString()
-        });
-
-        // Use your proxy URL
-        const proxyUrl = `https://file-proxy-cwma.onrender.com/proxy?url=${encodeURIComponent(GOOGLE_SHEET_WEB_APP_URL + '?' + params.toString())}`;
-
-        const response = await fetch(proxyUrl);
-        if (!response.ok) throw new Error("Server responded with an error.");
-
-        const result = await response.json();
-        if (!result.success) throw new Error(result.message || "Failed to submit score.");
+            time: elapsedTime,
+            seed: testConfig.sections ? seed : undefined,
+            answers: userAnswers,
+            events: eventsRef.current.filter(event => event.type !== 'pointer-move'),
+        }));
+        hasSubmittedRef.current = true;
 
         // Fetch updated leaderboard
         await fetchLeaderboard();
@@ -362,7 +778,29 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
 
         submitScore();
     }
-  }, [showResults, userEmail, testUrl, score, totalPossible, elapsedTime, fetchLeaderboard, leaderboardData, isSubmittingScore, submissionError]);
+  }, [showResults, isPractice, userEmail, testUrl, elapsedTime, testConfig.sections, seed, userAnswers, fetchLeaderboard, isSubmittingScore, submissionError]);
+
+  const handleDownloadCertificate = useCallback(async () => {
+    if (!recordedResult?.verificationCode) return;
+    setCertificateError(null);
+    const verifyUrl = new URL(window.location.pathname, window.location.origin);
+    verifyUrl.searchParams.set('verify', recordedResult.verificationCode);
+    try {
+      const certificate = await renderCertificate({
+        email: recordedResult.email,
+        testTitle: testConfig.title ?? 'Interactive test',
+        score: recordedResult.score,
+        totalPossible: recordedResult.totalPossible,
+        completedAt: new Date(recordedResult.timestamp),
+        verificationCode: recordedResult.verificationCode,
+        verifyUrl: verifyUrl.toString(),
+      });
+      downloadBlob(certificate, 'certificate.png');
+    } catch (err) {
+      console.error('Certificate rendering failed:', err);
+      setCertificateError(err instanceof Error ? err.message : 'The certificate could not be created.');
+    }
+  }, [recordedResult, testConfig.title]);
 
 
   if (!currentFrameData) {
@@ -377,10 +815,26 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
   }
   
   const isLastFrame = currentFrameIdx === frames.length - 1;
-  const totalMistakes = hotspotMistakeCount + backgroundMistakeCount;
+  // 'auto' frames with nothing that completes them, such as ones with only checkboxes, need the button too.
+  const needsContinueButton = currentFrameData.advance === 'continue' || (isAutoAdvance && !hasCompletionTasks(currentFrameData));
+  const hotspotMistakeCount = scoreResult?.frames.reduce((sum, f) => sum + f.hotspotMistakes, 0) ?? 0;
+  const backgroundMistakeCount = scoreResult?.frames.reduce((sum, f) => sum + f.backgroundMistakes, 0) ?? 0;
+  const totalPenalty = scoreResult?.totalPenalty ?? 0;
+  const totalHintsUsed = resultsReport?.hintsUsed ?? 0;
+  const testFacts: { label: string, value: string }[] = [];
+  if (testConfig.estimatedDurationMinutes !== undefined) {
+    testFacts.push({ label: 'Estimated duration', value: `${testConfig.estimatedDurationMinutes} min` });
+  }
+  if (testConfig.timeLimitSeconds !== undefined) {
+    testFacts.push({ label: 'Time limit', value: formatTime(testConfig.timeLimitSeconds) });
+  }
+  if (testConfig.passingScore !== undefined) {
+    const { passingScore } = testConfig;
+    testFacts.push({ label: 'Passing score', value: typeof passingScore === 'number' ? `${passingScore} point${passingScore === 1 ? '' : 's'}` : passingScore });
+  }
   const mistakeBreakdown = [];
   if (hotspotMistakeCount > 0) {
-    mistakeBreakdown.push(`${hotspotMistakeCount} wrong hotspot click${hotspotMistakeCount !== 1 ? 's' : ''}`);
+    mistakeBreakdown.push(`${hotspotMistakeCount} wrong interaction${hotspotMistakeCount !== 1 ? 's' : ''}`);
   }
   if (backgroundMistakeCount > 0) {
     mistakeBreakdown.push(`${backgroundMistakeCount} background click${backgroundMistakeCount !== 1 ? 's' : ''}`);
@@ -392,12 +846,69 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
         <div className="flex-grow flex items-center justify-center">
           <div className="max-w-2xl w-full text-center bg-gray-800 p-8 sm:p-12 rounded-2xl shadow-2xl border border-gray-700">
             <h2 className="text-4xl font-extrabold text-gray-100 mb-4">
-              Ready to Begin?
+              {testConfig.title ?? 'Ready to Begin?'}
             </h2>
+            {(testConfig.author || testConfig.version) && (
+              <p className="text-sm text-gray-400 -mt-2 mb-4">
+                {[testConfig.author && `By ${testConfig.author}`, testConfig.version && `Version ${testConfig.version}`].filter(Boolean).join(' • ')}
+              </p>
+            )}
+            {testConfig.description && <p className="text-lg text-gray-200 mb-6 leading-relaxed">{testConfig.description}</p>}
+            {testFacts.length > 0 && (
+              <dl className="flex flex-wrap justify-center gap-3 mb-6">
+                {testFacts.map(fact => (
+                  <div key={fact.label} className="px-4 py-2 bg-gray-900 border border-gray-700 rounded-lg">
+                    <dt className="text-xs uppercase tracking-wide text-gray-500">{fact.label}</dt>
+                    <dd className="text-lg font-semibold text-gray-100">{fact.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            {testConfig.instructions && (
+              <div className="mb-6 p-4 text-left bg-gray-900 border border-gray-700 rounded-lg">
+                <h3 className="text-lg font-bold text-purple-400 mb-2">Instructions</h3>
+                <p className="text-gray-300 whitespace-pre-line leading-relaxed">{testConfig.instructions}</p>
+              </div>
+            )}
             <p className="text-lg text-gray-300 mb-8 leading-relaxed">
               Enter your email to save your score. Then, follow the on-screen prompts. The timer starts when you begin.
+              {testConfig.timeLimitSeconds !== undefined && ` You have ${formatTime(testConfig.timeLimitSeconds)} to finish; the test is submitted automatically when time runs out.`}
             </p>
-            <form onSubmit={(e) => { e.preventDefault(); setTestStarted(true); }} className="flex flex-col gap-4">
+            {integritySettings && !isPractice && (
+              <div className="mb-8 p-4 text-left bg-gray-900 border border-yellow-600 rounded-lg">
+                <h3 className="text-lg font-bold text-yellow-400 mb-2">This test is monitored</h3>
+                <p className="text-gray-300 leading-relaxed">
+                  {wantsFullscreen(integritySettings) && 'The test opens in fullscreen. '}
+                  Switching to another tab or window{wantsFullscreen(integritySettings) && ', leaving fullscreen'} and pasting into answers are recorded and submitted with your results.
+                  {` After ${integritySettings.maxViolations ?? DEFAULT_MAX_VIOLATIONS} of these, the attempt is ${integritySettings.onLimit === 'block' ? 'blocked each time until you return to it, with the clock running' : 'flagged for review'}.`}
+                </p>
+              </div>
+            )}
+            {pendingCheckpoint && (
+              <div className="mb-8 p-4 bg-gray-900 border border-purple-500 rounded-lg" role="alert">
+                <h3 className="text-xl font-bold text-purple-400 mb-2">Resume your previous attempt?</h3>
+                <p className="text-gray-300 mb-4">
+                  {pendingCheckpoint.email} reached frame {Math.min(pendingCheckpoint.currentFrameIdx, frames.length - 1) + 1} of {frames.length} after {formatTime(pendingCheckpoint.elapsedTime)}.
+                </p>
+                <div className="flex justify-center gap-3">
+                  <button
+                    type="button"
+                    onClick={handleResume}
+                    className="px-6 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-md transition-colors"
+                  >
+                    Resume
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDiscardCheckpoint}
+                    className="px-6 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-md transition-colors"
+                  >
+                    Start Over
+                  </button>
+                </div>
+              </div>
+            )}
+            <form onSubmit={(e) => { e.preventDefault(); handleStart(); }} className="flex flex-col gap-4">
               <input
                   type="email"
                   value={userEmail}
@@ -407,28 +918,43 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
                   className="w-full px-4 py-3 bg-gray-900 text-white border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 transition-shadow"
                   aria-label="Your email for the leaderboard"
               />
+              <div className="flex justify-center gap-6 text-gray-300" role="radiogroup" aria-label="Attempt mode">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" name="attempt-mode" checked={!isPractice} onChange={() => setIsPractice(false)} className="accent-purple-500" />
+                  Assessment
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="radio" name="attempt-mode" checked={isPractice} onChange={() => setIsPractice(true)} className="accent-purple-500" />
+                  Practice (hints and retries, no leaderboard)
+                </label>
+              </div>
+              {startError && <p className="text-red-400" role="alert">Error: {startError}</p>}
               <button
                 type="submit"
-                disabled={!userEmail.includes('@')}
+                disabled={!userEmail.includes('@') || isStarting}
                 className="px-12 py-4 bg-purple-600 hover:bg-purple-700 text-white font-bold text-xl rounded-lg shadow-lg transition-all transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-4 focus:ring-offset-gray-800 focus:ring-purple-500 disabled:bg-gray-600 disabled:cursor-not-allowed disabled:transform-none disabled:hover:bg-gray-600"
                 aria-label="Start the test now"
               >
-                Start the Test!
+                {isStarting ? 'Starting...' : isPractice ? 'Start Practicing!' : 'Start the Test!'}
               </button>
             </form>
           </div>
         </div>
       ) : (
         <>
-          <header className="w-full max-w-7xl mb-4">
+          <header className="w-full max-w-7xl mb-4 print:hidden">
             <div className="bg-gray-800 p-3 rounded-lg shadow-lg space-y-3">
                 <div className="flex justify-between items-center">
                     <div className="flex items-center gap-4">
                         <div>
                             <h2 className="text-xl md:text-2xl font-bold text-gray-200">
-                            {showResults ? "Test Review" : "Test in Progress"}
+                            {showResults ? "Test Review" : isPractice ? "Practice in Progress" : "Test in Progress"}
                             </h2>
-                            <p className="text-gray-400" aria-live="polite">Frame {currentFrameIdx + 1} of {frames.length}</p>
+                            <p className="text-gray-400" aria-live="polite">
+                              {!isBranching
+                                ? `Frame ${currentFrameIdx + 1} of ${frames.length}`
+                                : showResults ? `Step ${reviewStep + 1} of ${path.length}` : `Step ${path.length}`}
+                            </p>
                         </div>
                         {!showResults && (
                             <div className="hidden sm:flex items-center gap-2 text-lg font-mono bg-gray-900 px-3 py-1 rounded-md text-gray-200" aria-label={`Time elapsed: ${formatTime(elapsedTime)}`}>
@@ -436,6 +962,18 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
                                 <span aria-hidden="true">{formatTime(elapsedTime)}</span>
                             </div>
                         )}
+                        {!showResults && testTimeRemaining !== null && (
+                            <div className={`flex items-center gap-2 text-lg font-mono bg-gray-900 px-3 py-1 rounded-md ${countdownTone(testTimeRemaining, testConfig.timeLimitSeconds!)}`} role="timer" aria-label={`Test time remaining: ${formatTime(testTimeRemaining)}`}>
+                                <span className="text-xs font-sans text-gray-400" aria-hidden="true">Test</span>
+                                <span aria-hidden="true">{formatTime(testTimeRemaining)}</span>
+                            </div>
+                        )}
+                        {!showResults && frameTimeRemaining !== null && (
+                            <div className={`flex items-center gap-2 text-lg font-mono bg-gray-900 px-3 py-1 rounded-md ${countdownTone(frameTimeRemaining, currentFrameData.timeLimitSeconds!)}`} role="timer" aria-label={`Frame time remaining: ${formatTime(frameTimeRemaining)}`}>
+                                <span className="text-xs font-sans text-gray-400" aria-hidden="true">Frame</span>
+                                <span aria-hidden="true">{formatTime(frameTimeRemaining)}</span>
+                            </div>
+                        )}
                     </div>
 
                     <div className="flex items-center gap-3">
@@ -459,7 +997,27 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
                     </div>
                 </div>
               
-                {!showResults && (
+                {!showResults && isPractice && (
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            onClick={handleShowHint}
+                            disabled={!hintTarget}
+                            className="px-3 py-1 text-sm font-medium text-white bg-yellow-600 rounded-md hover:bg-yellow-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Show Hint
+                        </button>
+                        <button
+                            onClick={handleRetryFrame}
+                            className="px-3 py-1 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+                        >
+                            Retry Frame
+                        </button>
+                        {visibleHint && <p className="text-yellow-300" aria-live="polite">Hint: look for "{visibleHint}"</p>}
+                        {isHintRevealed && hintTarget && <p className="text-yellow-300" aria-live="polite">The next hotspot is now highlighted.</p>}
+                    </div>
+                )}
+
+                {!showResults && !isBranching && (
                     <div>
                         <div className="w-full bg-gray-700 rounded-full h-2.5" role="progressbar" aria-valuenow={currentFrameIdx + 1} aria-valuemin={1} aria-valuemax={frames.length} aria-label="Test progress">
                             <div 
@@ -472,35 +1030,106 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
             </div>
           </header>
 
-          <main className="w-full max-w-7xl flex-grow">
+          <main className="w-full max-w-7xl flex-grow print:hidden">
+            {isReplaying ? (
+              <SessionReplay frames={frames} frameImages={frameImages} events={eventsRef.current} testId={testId} />
+            ) : (
             <TestFramePlayer
               ref={framePlayerRef}
               key={currentFrameData.id}
               frame={currentFrameData}
+              imageUrl={currentImage.url}
+              imageError={currentImage.error}
               onInputChange={handleInputChange}
               onHotspotInteraction={handleHotspotInteraction}
               onFrameClickMistake={handleFrameClickMistake} 
               onInputBlur={handleInputBlur}
+              onPointerMove={handlePointerMove}
+              onWrongGesture={handleWrongGesture}
+              onCheckboxChange={handleCheckboxChange}
+              onDragEnd={handleDragEnd}
+              onShortcut={handleShortcut}
               userInputsForFrame={currentUserAnswerForFrame?.inputs || {}}
               userHotspotsClickedForFrame={currentUserAnswerForFrame?.hotspotsClicked || {}}
+              userCheckedForFrame={currentUserAnswerForFrame?.checked}
+              userCompletedForFrame={currentUserAnswerForFrame?.completed}
               showResults={showResults}
               backgroundMistakesForFrame={backgroundMistakes[currentFrameData.id]}
               justClickedHotspotId={justClickedHotspotId}
+              revealedHotspotId={isHintRevealed ? hintTarget?.id : null}
+              onInputPaste={handleInputPaste}
             />
+            )}
           </main>
 
-          <footer className="w-full max-w-7xl mt-4 flex flex-col items-center space-y-4">
+          {isIntegrityBlocked && !showResults && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/95 print:hidden" role="alertdialog" aria-modal="true" aria-labelledby="integrity-block-title">
+              <div className="max-w-lg p-8 text-center bg-gray-800 border border-yellow-600 rounded-2xl shadow-2xl">
+                <h3 id="integrity-block-title" className="text-2xl font-bold text-yellow-400 mb-3">Test blocked</h3>
+                <p className="text-gray-300 mb-6">
+                  You left the test too often. The attempt has been flagged for review and the clock is still running.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleReturnFromBlock}
+                  autoFocus
+                  className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-md transition-colors"
+                >
+                  Return to the test
+                </button>
+              </div>
+            </div>
+          )}
+
+          <footer className="w-full max-w-7xl mt-4 flex flex-col items-center space-y-4 print:hidden">
+            {!showResults && currentFrameData.advance === 'enter' && (
+                <p className="text-sm text-gray-400">Press <kbd className="px-1.5 py-0.5 bg-gray-700 rounded text-gray-200">Enter</kbd> when you have finished this screen.</p>
+            )}
+            {!showResults && needsContinueButton && (
+                <button
+                    onClick={finishFrame}
+                    className="flex items-center gap-2 px-6 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 transition-colors"
+                >
+                    Continue <ChevronRightIcon />
+                </button>
+            )}
             {showResults && (
                 <>
                     <div role="status" aria-live="assertive" className="p-4 bg-gray-800 border border-purple-500 rounded-lg text-gray-200 w-full text-center shadow-lg">
                         <h3 className="text-xl font-bold text-purple-400">Test Complete!</h3>
+                        {testConfig.title && <p className="text-md text-gray-300">{testConfig.title}{testConfig.version && ` (version ${testConfig.version})`}</p>}
                         <p className="text-lg mt-1">Your score: {score} / {totalPossible}</p>
+                        {recordedResult && (recordedResult.score !== score || recordedResult.totalPossible !== totalPossible) && (
+                          <p className="text-md mt-1 text-yellow-300">
+                            The results server scored this attempt {recordedResult.score} / {recordedResult.totalPossible}. That is the score recorded.
+                          </p>
+                        )}
+                        {recordedResult && recordedResult.score === score && recordedResult.totalPossible === totalPossible && (
+                          <p className="text-sm mt-1 text-green-400">Score confirmed by the results server.</p>
+                        )}
+                        {passed !== null && resultsReport && (
+                          <p className={`inline-block mt-2 px-4 py-1 rounded-full text-lg font-bold ${passed ? 'bg-green-800 text-green-100' : 'bg-red-900 text-red-100'}`}>
+                            {passed ? 'Passed' : 'Not passed'}
+                            <span className="font-normal"> (pass mark: {Number(resultsReport.passingThreshold!.toFixed(2))} points)</span>
+                          </p>
+                        )}
                         <p className="text-md mt-1 text-gray-400">Total Time: {formatTime(elapsedTime)}</p>
-                        {totalMistakes > 0 && (
+                        {integritySummary && (
+                          <p className={`text-sm mt-1 ${integritySummary.flagged ? 'text-red-400' : 'text-gray-400'}`}>
+                            Integrity: {describeIntegritySummary(integritySummary)}{integritySummary.flagged && ' (flagged for review)'}
+                          </p>
+                        )}
+                        {isPractice && (
+                          <p className="text-sm text-yellow-300 mt-1">
+                            Practice attempt: {totalHintsUsed} hint{totalHintsUsed === 1 ? '' : 's'} used. Practice scores are not added to the leaderboard.
+                          </p>
+                        )}
+                        {totalPenalty > 0 && (
                           <p className="text-sm text-red-400 mt-1">
-                            {totalMistakes} point{totalMistakes === 1 ? '' : 's'} deducted for incorrect clicks ({mistakeBreakdown.join(' & ')}).
+                            {totalPenalty} point{totalPenalty === 1 ? '' : 's'} deducted for mistakes ({mistakeBreakdown.join(' & ')}).
                           </p>
                         )}
+                        {scoreResult && <ScoreBreakdown result={scoreResult} frames={frames} frameTimeSpent={frameTimeSpent} formatTime={formatTime} />}
                         <p className="text-sm mt-2 text-gray-400">You can now review your answers using the navigation buttons below.</p>
                     </div>
 
@@ -510,14 +1139,62 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
                         {submissionError && <p className="text-center text-red-400">Error: {submissionError}</p>}
                         {isFetchingLeaderboard && <p className="text-center text-gray-300">Loading leaderboard...</p>}
                         {leaderboardError && <p className="text-center text-red-400">{leaderboardError}</p>}
-                        {leaderboardData && <LeaderboardDisplay data={leaderboardData} currentUserEmail={userEmail} formatTime={formatTime} />}
+                        {leaderboardData && <LeaderboardDisplay data={leaderboardData} recordedAt={recordedResult?.timestamp} formatTime={formatTime} />}
                       </div>
                     )}
                     
+                    <div className="flex flex-wrap justify-center gap-3">
+                        <button
+                            onClick={() => setIsReplaying(prev => !prev)}
+                            className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+                        >
+                            {isReplaying ? 'Back to Review' : 'Replay Session'}
+                        </button>
+                        <button
+                            onClick={handleExportLog}
+                            className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+                        >
+                            Export Session Log (JSON)
+                        </button>
+                        <button
+                            onClick={() => handleDownloadReport('json')}
+                            className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+                        >
+                            Download Results (JSON)
+                        </button>
+                        <button
+                            onClick={() => handleDownloadReport('csv')}
+                            className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 transition-colors"
+                        >
+                            Download Results (CSV)
+                        </button>
+                        {passed && !isPractice && testUrl && (
+                          <button
+                              onClick={handleDownloadCertificate}
+                              disabled={!recordedResult?.verificationCode}
+                              className="px-4 py-2 text-sm font-medium text-white bg-green-700 rounded-md hover:bg-green-600 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                          >
+                              {recordedResult?.verificationCode ? 'Download Certificate (PNG)' : 'Certificate available once your score is saved'}
+                          </button>
+                        )}
+                        <button
+                            onClick={() => setIsPrinting(true)}
+                            disabled={isPrinting}
+                            className="px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-wait transition-colors"
+                        >
+                            {isPrinting ? 'Preparing Report...' : 'Print Report'}
+                        </button>
+                    </div>
+                    {certificateError && <p className="text-center text-red-400">{certificateError}</p>}
+                    {passed && !isPractice && !testUrl && (
+                      <p className="text-sm text-center text-gray-400">Certificates carry a verification code, which is only issued for tests loaded from a link.</p>
+                    )}
+
+                    {!isReplaying && (
                     <div className="flex justify-between items-center w-full p-3 bg-gray-800 rounded-lg shadow-lg">
                         <button
                             onClick={() => navigate('prev')}
-                            disabled={currentFrameIdx === 0}
+                            disabled={isBranching ? reviewStep === 0 : currentFrameIdx === 0}
                             className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-gray-600 rounded-md hover:bg-gray-500 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
                             aria-label="Previous Frame"
                         >
@@ -525,16 +1202,28 @@ export const TestPlayer: React.FC<TestPlayerProps> = ({ frames, onExitTest, shar
                         </button>
                         <button
                             onClick={() => navigate('next')}
-                            disabled={isLastFrame}
+                            disabled={isBranching ? reviewStep >= path.length - 1 : isLastFrame}
                             className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
                             aria-label="Next Frame for Review"
                         >
                             Next (Review) <ChevronRightIcon />
                         </button>
                     </div>
+                    )}
                 </>
             )}
           </footer>
+          {resultsReport && isPrinting && (
+            <PrintableReport
+              report={resultsReport}
+              frames={frames}
+              userAnswers={userAnswers}
+              backgroundMistakes={backgroundMistakes}
+              formatTime={formatTime}
+              frameImages={frameImages}
+              onReady={handlePrintReady}
+            />
+          )}
         </>
       )}
     </div>
@@ -1,11 +1,36 @@
 // The raw shape of data from the user's JSON file
+
+// Hotspots are rectangles unless they say otherwise. Ellipses fill their
+// x/y/w/h box; polygons list their vertices and their box is derived from them.
+export type HotspotShape = 'rect' | 'ellipse' | 'polygon';
+
+// The gesture that activates a hotspot; hover targets activate after a short dwell.
+export type HotspotAction = 'click' | 'doubleClick' | 'rightClick' | 'hover';
+
 export interface Hotspot {
   x: number;
   y: number;
   w: number;
   h: number;
+  shape?: HotspotShape;
+  vertices?: [number, number][]; // Polygon corners in image pixels
+  action?: HotspotAction; // Defaults to 'click'
   label: string;
   order?: number;
+  points?: number; // Defaults to 1
+  target?: string | null; // Frame to go to when clicked, by id or image name; null ends the test
+  mistake?: boolean; // A wrong choice: clicking it counts as a mistake (and follows `target` if set)
+}
+
+// Optional rules for how an input answer is compared. With no spec, the
+// answer must equal `expected` ignoring case and surrounding whitespace.
+export interface AnswerMatchSpec {
+  accept?: string[]; // Additional accepted answers besides `expected`
+  caseSensitive?: boolean; // Defaults to false
+  normalizeWhitespace?: boolean; // Collapse runs of whitespace to one space; defaults to false
+  pattern?: string; // Regular expression the answer may match instead
+  patternFlags?: string;
+  numeric?: { value: number; tolerance?: number }; // Accepts numbers within value ± tolerance
 }
 
 export interface Input {
@@ -15,56 +40,324 @@ export interface Input {
   h: number;
   label: string;
   expected: string;
+  match?: AnswerMatchSpec;
+  points?: number; // Defaults to 1
 }
 
+// A dropdown with fixed options; `expected` must be one of them.
+export interface SelectField {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  label: string;
+  options: string[];
+  expected: string;
+  points?: number; // Defaults to 1
+}
+
+export interface Checkbox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  label: string;
+  expected: boolean; // Whether the box should end up checked
+  points?: number; // Defaults to 1
+}
+
+// Drag from the x/y/w/h box and drop inside `to`.
+export interface DragTarget {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  to: { x: number; y: number; w: number; h: number };
+  label: string;
+  points?: number; // Defaults to 1
+}
+
+// A keyboard shortcut to press on the frame, e.g. "Ctrl+Shift+S".
+export interface Shortcut {
+  keys: string;
+  label: string;
+  points?: number; // Defaults to 1
+}
+
+// How a frame is finished: 'auto' moves on as soon as its tasks are done,
+// 'enter' waits for the Enter key and 'continue' for a Continue button.
+export type AdvanceMode = 'auto' | 'enter' | 'continue';
+
 export interface Frame {
+  id?: string; // Lets hotspot targets refer to the frame; the image name works too
   image: string;
   hotspots: Hotspot[];
   inputs: Input[];
+  selects?: SelectField[];
+  checkboxes?: Checkbox[];
+  drags?: DragTarget[];
+  shortcuts?: Shortcut[];
+  timeLimitSeconds?: number; // The frame advances, scored as missed, when this runs out
+  next?: string | null; // Where the frame leads when no hotspot target applies; defaults to the following frame, null ends the test
+  advance?: AdvanceMode | { hotspot: number }; // Defaults to 'auto'; { hotspot: i } finishes the frame with a click on hotspots[i]
+}
+
+// How points are awarded and deducted. Every field is optional; the defaults
+// reproduce the original rule of one point per box minus one per mistake.
+export interface ScoringPolicy {
+  hotspotPenalty?: number; // Points lost per wrong hotspot click; defaults to 1
+  backgroundPenalty?: number; // Points lost per background click; defaults to 1, 0 disables
+  escalatePenalties?: boolean; // The nth mistake on a frame costs n times the base penalty
+  maxPenaltyPerFrame?: number; // Caps the total penalty a single frame can incur
+  sequenceCredit?: 'perStep' | 'allOrNothing'; // Credit for ordered hotspots; defaults to 'perStep'
+}
+
+// Settings for attempts taken in practice mode
+export interface PracticeSettings {
+  revealAfterMistakes?: number; // Mistakes on a frame before its next hotspot is revealed; defaults to 3, 0 disables
+}
+
+// Proctoring for assessment attempts; monitoring is on when a manifest has these settings
+export interface IntegritySettings {
+  fullscreen?: boolean; // Ask for fullscreen when the attempt starts; defaults to true
+  maxViolations?: number; // Violations tolerated before `onLimit` applies; defaults to 3
+  onLimit?: 'flag' | 'block'; // Flag the attempt, or also cover the test, with the clock running, until the candidate returns; defaults to 'flag'
+}
+
+// What integrity monitoring noticed during an attempt
+export type IntegrityEventKind = 'hidden' | 'visible' | 'blur' | 'focus' | 'fullscreen-exit' | 'fullscreen-enter' | 'paste' | 'resize' | 'blocked' | 'unblocked';
+
+export interface IntegritySummary {
+  violations: number; // Times the candidate left the test, left fullscreen or pasted
+  flagged: boolean; // More violations than the manifest tolerates
+  timeAwaySeconds: number;
+  counts: Partial<Record<IntegrityEventKind, number>>;
+}
+
+// Describes a test to candidates on the start screen, in results and in shared links
+export interface TestMetadata {
+  title?: string;
+  description?: string;
+  author?: string;
+  version?: string;
+  instructions?: string; // Shown before the test starts; line breaks are kept
+  estimatedDurationMinutes?: number;
+  passingScore?: PassingScore;
+}
+
+// Points needed to pass, or a percentage of the total possible score such as "80%"
+export type PassingScore = number | `${number}%`;
+
+// A manifest is either a bare array of frames or an object with extra sections.
+export interface Manifest extends TestMetadata {
+  frames: Frame[];
+  scoring?: ScoringPolicy;
+  practice?: PracticeSettings;
+  timeLimitSeconds?: number; // The test is submitted automatically when this runs out
+  images?: Record<string, string>; // Image name to data: or http(s) URL, so a lone JSON file can carry its images
+  sections?: Section[]; // Serves the frames section by section, each attempt drawing its own order and selection
+  integrity?: IntegritySettings;
 }
 
+// Frames served together. Sections follow each other in manifest order.
+export interface Section {
+  title?: string;
+  frames: string[]; // Frame ids or image names; in the manifest every frame belongs to exactly one section
+  shuffle?: boolean; // Serve the frames in a random order
+  draw?: number; // Serve only this many of the frames, picked at random
+}
+
+// The test-wide settings of a manifest, i.e. everything but the frames and their images
+export type TestConfig = Omit<Manifest, 'frames' | 'images'>;
+
 
 // The processed, structured data used by the application
 export enum BoxType {
   HOTSPOT = 'HOTSPOT',
   INPUT = 'INPUT',
+  SELECT = 'SELECT',
+  CHECKBOX = 'CHECKBOX',
+  DRAG = 'DRAG',
+  SHORTCUT = 'SHORTCUT',
 }
 
-interface Box {
+interface BaseBox {
   id: string; // Unique ID for each box
+  label: string;
+  type: BoxType;
+  points?: number;
+}
+
+interface Box extends BaseBox {
   x: number;
   y: number;
   w: number;
   h: number;
-  label: string;
-  type: BoxType;
 }
 
 export interface HotspotBox extends Box {
   type: BoxType.HOTSPOT;
+  shape?: HotspotShape;
+  vertices?: [number, number][];
+  action?: HotspotAction;
   order?: number;
+  target?: string | null; // Resolved frame ID; null ends the test
+  mistake?: boolean;
 }
 
 export interface InputBox extends Box {
   type: BoxType.INPUT;
   expected: string;
+  match?: AnswerMatchSpec;
 }
 
-export type FrameBox = HotspotBox | InputBox;
+export interface SelectBox extends Box {
+  type: BoxType.SELECT;
+  options: string[];
+  expected: string;
+}
+
+export interface CheckboxBox extends Box {
+  type: BoxType.CHECKBOX;
+  expected: boolean;
+}
+
+export interface DragBox extends Box {
+  type: BoxType.DRAG;
+  to: { x: number; y: number; w: number; h: number };
+}
+
+// Shortcuts are pressed anywhere on the frame, so they have no position.
+export interface ShortcutBox extends BaseBox {
+  type: BoxType.SHORTCUT;
+  keys: string;
+}
+
+export type FrameBox = HotspotBox | InputBox | SelectBox | CheckboxBox | DragBox | ShortcutBox;
+
+// Boxes drawn over the frame image, i.e. everything but shortcuts
+export type PositionedBox = Exclude<FrameBox, ShortcutBox>;
 
 export interface FrameData {
   id: string; // Unique ID for each frame
-  imageFileName: string;
-  imageDataUrl: string;
+  imageFileName: string; // The image itself is loaded on demand, see FrameImageLoader
   boxes: FrameBox[];
   originalWidth: number;
   originalHeight: number;
+  timeLimitSeconds?: number;
+  next?: string | null; // Resolved frame ID; undefined means the following frame, null ends the test
+  advance?: AdvanceMode | { hotspotId: string }; // Undefined means 'auto'
 }
 
-export interface LeaderboardEntry {
+// What the candidate did on a frame
+export interface UserAnswer {
+  inputs: Record<string, string>; // Text inputs and selects
+  hotspotsClicked: Record<string, boolean>;
+  checked?: Record<string, boolean>;
+  completed?: Record<string, boolean>; // Drags dropped on target and shortcuts pressed
+}
+
+// 'hotspot' covers every wrong interaction with a target: wrong hotspots,
+// wrong gestures, missed drops and wrong shortcuts.
+export type MistakeKind = 'hotspot' | 'background';
+
+// The scoring-relevant record of an attempt, keyed by frame ID
+export interface AttemptRecord {
+  answers: Record<string, UserAnswer | undefined>;
+  mistakes: Record<string, MistakeKind[] | undefined>;
+  timedOutFrames?: Record<string, boolean>;
+  path?: string[]; // Frames in the order visited; when given, frames off the path are not scored
+}
+
+export interface BackgroundMistake {
+  x: number;
+  y: number;
+}
+
+export interface SequenceState {
+  nextOrder: number;
+}
+
+// One entry in the interaction log of an attempt. Coordinates are in original
+// image pixels; `time` is a Unix timestamp in milliseconds.
+export type SessionEvent =
+  | { type: 'test-start'; time: number; frameId: string }
+  | { type: 'test-submit'; time: number; frameId: string }
+  | { type: 'frame-enter'; time: number; frameId: string }
+  | { type: 'frame-leave'; time: number; frameId: string }
+  | { type: 'navigate'; time: number; frameId: string; toFrameId: string; direction: 'next' | 'prev' }
+  | { type: 'pointer-move'; time: number; frameId: string; x: number; y: number }
+  | { type: 'hotspot-click'; time: number; frameId: string; boxId: string; correct: boolean; x?: number; y?: number }
+  | { type: 'background-click'; time: number; frameId: string; x: number; y: number }
+  | { type: 'input-change'; time: number; frameId: string; boxId: string; value: string }
+  | { type: 'input-blur'; time: number; frameId: string; boxId: string; value: string }
+  | { type: 'time-expired'; time: number; frameId: string; scope: 'frame' | 'test' }
+  | { type: 'checkbox-change'; time: number; frameId: string; boxId: string; checked: boolean }
+  | { type: 'drag-end'; time: number; frameId: string; boxId: string; correct: boolean; x: number; y: number }
+  | { type: 'shortcut'; time: number; frameId: string; keys: string; boxId: string | null }
+  | { type: 'hint-shown'; time: number; frameId: string }
+  | { type: 'frame-retry'; time: number; frameId: string }
+  | { type: 'integrity'; time: number; frameId: string; kind: IntegrityEventKind; boxId?: string; length?: number; width?: number; height?: number };
+
+// The exported form of an attempt's interaction log
+export interface SessionLog {
+  version: 1;
+  testId: string | null;
+  testUrl: string | null;
   email: string;
+  seed?: string; // Reproduces the frames a test with sections served
+  frameIds?: string[]; // The frames served, in order
+  events: SessionEvent[];
+}
+
+// Everything needed to continue an attempt where it was left off
+export interface AttemptSnapshot {
+  currentFrameIdx: number;
+  userAnswers: Record<string, UserAnswer>;
+  sequenceState: Record<string, SequenceState>;
+  frameMistakes: Record<string, boolean>;
+  backgroundMistakes: Record<string, BackgroundMistake[]>;
+  mistakeLog: Record<string, MistakeKind[]>;
+  elapsedTime: number;
+  frameTimeSpent?: Record<string, number>;
+  timedOutFrames?: Record<string, boolean>;
+  practice?: boolean;
+  hintsUsed?: Record<string, number>;
+  path?: string[];
+  events?: SessionEvent[];
+  seed?: string; // Which frames a test with sections serves, and in what order
+}
+
+export interface LeaderboardEntry {
+  email: string; // Masked in leaderboard listings
   score: number;
   totalPossible: number;
   time: number;
   timestamp: string;
+  passed?: boolean; // Only for tests with a passing score
+  verificationCode?: string; // Issued by the results API; never listed on the leaderboard
+  integrity?: IntegritySummary; // Only for tests with integrity monitoring
+}
+
+// An assessment attempt as the player submits it. The results API scores it
+// itself from the events, which the answers must agree with.
+export interface AttemptSubmission {
+  email: string;
+  time: number; // Seconds on the player's clock
+  seed?: string; // For tests with sections
+  answers: Record<string, UserAnswer>;
+  events: SessionEvent[];
+}
+
+// A stored result as the verification route returns it
+export interface VerifiedResult extends LeaderboardEntry {
+  testUrl: string;
+}
+
+// A single problem found while validating a test manifest
+export interface ManifestIssue {
+  frameIndex: number | null; // null for problems with the manifest as a whole
+  path: string; // e.g. "hotspots[2].w"
+  expected: string;
+  actual: string;
 }
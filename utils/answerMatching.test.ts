@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { isAnswerCorrect } from './answerMatching';
+
+describe('isAnswerCorrect', () => {
+  it('ignores case and surrounding space by default', () => {
+    expect(isAnswerCorrect({ expected: 'Paris' }, '  paris ')).toBe(true);
+    expect(isAnswerCorrect({ expected: 'Paris', match: { caseSensitive: true } }, 'paris')).toBe(false);
+  });
+
+  it('rejects an empty answer unless nothing is expected', () => {
+    expect(isAnswerCorrect({ expected: 'Paris' }, '   ')).toBe(false);
+    expect(isAnswerCorrect({ expected: '' }, '')).toBe(true);
+  });
+
+  it('collapses whitespace only when asked to', () => {
+    expect(isAnswerCorrect({ expected: 'New York' }, 'New   York')).toBe(false);
+    expect(isAnswerCorrect({ expected: 'New York', match: { normalizeWhitespace: true } }, 'New   York')).toBe(true);
+  });
+
+  it('accepts the alternatives listed in accept', () => {
+    const box = { expected: 'colour', match: { accept: ['color'] } };
+    expect(isAnswerCorrect(box, 'Color')).toBe(true);
+    expect(isAnswerCorrect(box, 'colr')).toBe(false);
+  });
+
+  it('matches patterns, case-insensitively unless flags are given', () => {
+    expect(isAnswerCorrect({ expected: 'x', match: { pattern: '^ab+c$' } }, 'ABBC')).toBe(true);
+    expect(isAnswerCorrect({ expected: 'x', match: { pattern: '^ab+c$', patternFlags: '' } }, 'ABBC')).toBe(false);
+  });
+
+  it('treats an invalid pattern as no match', () => {
+    expect(isAnswerCorrect({ expected: 'x', match: { pattern: '(' } }, '(')).toBe(false);
+  });
+
+  it('accepts numbers within the tolerance, in the usual notations', () => {
+    const box = { expected: '', match: { numeric: { value: 1250.5, tolerance: 0.5 } } };
+    expect(isAnswerCorrect(box, '1250')).toBe(true);
+    expect(isAnswerCorrect(box, '1,250.5')).toBe(true);
+    expect(isAnswerCorrect(box, '1249.9')).toBe(false);
+    expect(isAnswerCorrect(box, 'about 1250')).toBe(false);
+    expect(isAnswerCorrect({ expected: '', match: { numeric: { value: 12.5 } } }, '12,5')).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+import { AnswerMatchSpec } from '../types';
+
+// The parts of an input box that decide whether an answer is correct.
+export interface MatchableInput {
+  expected: string;
+  match?: AnswerMatchSpec;
+}
+
+const normalizeText = (value: string, spec: AnswerMatchSpec): string => {
+  let normalized = value.trim();
+  if (spec.normalizeWhitespace) normalized = normalized.replace(/\s+/g, ' ');
+  if (!spec.caseSensitive) normalized = normalized.toLowerCase();
+  return normalized;
+};
+
+// Accepts plain decimals as well as thousands separators ("1,250.5") and a decimal comma ("12,5").
+const parseNumber = (value: string): number | null => {
+  let text = value.trim().replace(/\s+/g, '');
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) {
+    text = text.replace(/,/g, '');
+  } else if (/^[-+]?\d+,\d+$/.test(text)) {
+    text = text.replace(',', '.');
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+  return Number(text);
+};
+
+/**
+ * Decides whether `answer` is correct for an input box. This is the single
+ * source of truth used by both scoring and the review overlay.
+ */
+export const isAnswerCorrect = (box: MatchableInput, answer: string): boolean => {
+  const spec = box.match ?? {};
+  if (answer.trim() === '' && box.expected.trim() !== '') return false;
+
+  const normalizedAnswer = normalizeText(answer, spec);
+  const accepted = [box.expected, ...(spec.accept ?? [])];
+  if (accepted.some(candidate => normalizeText(candidate, spec) === normalizedAnswer)) {
+    return true;
+  }
+
+  if (spec.pattern !== undefined) {
+    const flags = spec.patternFlags ?? (spec.caseSensitive ? '' : 'i');
+    try {
+      if (new RegExp(spec.pattern, flags).test(answer.trim())) return true;
+    } catch {
+      // Invalid patterns are reported by manifest validation; treat as no match here.
+    }
+  }
+
+  if (spec.numeric) {
+    const value = parseNumber(answer);
+    if (value !== null && Math.abs(value - spec.numeric.value) <= (spec.numeric.tolerance ?? 0) + Number.EPSILON) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// A short human readable description of what is accepted, for the review overlay.
+export const describeExpectedAnswer = (box: MatchableInput): string => {
+  const spec = box.match ?? {};
+  const parts = [box.expected, ...(spec.accept ?? [])].filter(text => text.trim() !== '').map(text => `"${text}"`);
+  if (spec.numeric) {
+    parts.push(spec.numeric.tolerance ? `${spec.numeric.value} ± ${spec.numeric.tolerance}` : `${spec.numeric.value}`);
+  }
+  if (spec.pattern !== undefined) {
+    parts.push(`/${spec.pattern}/`);
+  }
+  return parts.length > 0 ? parts.join(' or ') : '""';
+};
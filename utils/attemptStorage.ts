@@ -0,0 +1,110 @@
+import { AttemptSnapshot } from '../types';
+
+const DB_NAME = 'interactive-test-player';
+const DB_VERSION = 1;
+const ATTEMPTS_STORE = 'attempts';
+const PACKAGES_STORE = 'packages';
+
+export interface AttemptCheckpoint extends AttemptSnapshot {
+  key: string;
+  testId: string;
+  email: string;
+  savedAt: string;
+}
+
+// A downloaded test ZIP kept so URL-loaded tests can be resumed offline.
+interface CachedPackage {
+  testUrl: string;
+  testId: string;
+  blob: Blob;
+  savedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+          db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'key' }).createIndex('testId', 'testId');
+        }
+        if (!db.objectStoreNames.contains(PACKAGES_STORE)) {
+          db.createObjectStore(PACKAGES_STORE, { keyPath: 'testUrl' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const checkpointKey = (testId: string, email: string) => `${testId}|${email.trim().toLowerCase()}`;
+
+// Identifies a test by the SHA-256 of its package, so a changed test never resumes an old attempt.
+export const computeTestId = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const saveCheckpoint = (testId: string, email: string, snapshot: AttemptSnapshot): Promise<unknown> => {
+  const checkpoint: AttemptCheckpoint = {
+    ...snapshot,
+    key: checkpointKey(testId, email),
+    testId,
+    email,
+    savedAt: new Date().toISOString(),
+  };
+  return runRequest(ATTEMPTS_STORE, 'readwrite', store => store.put(checkpoint));
+};
+
+// Returns the most recently saved checkpoint for a test, whoever it belongs to.
+export const getLatestCheckpoint = async (testId: string): Promise<AttemptCheckpoint | null> => {
+  const checkpoints = await runRequest<AttemptCheckpoint[]>(
+    ATTEMPTS_STORE, 'readonly', store => store.index('testId').getAll(testId)
+  );
+  if (checkpoints.length === 0) return null;
+  return checkpoints.reduce((latest, c) => c.savedAt > latest.savedAt ? c : latest);
+};
+
+export const deleteCheckpoint = (testId: string, email: string): Promise<unknown> =>
+  runRequest(ATTEMPTS_STORE, 'readwrite', store => store.delete(checkpointKey(testId, email)));
+
+export const cachePackage = (testUrl: string, testId: string, blob: Blob): Promise<unknown> => {
+  const entry: CachedPackage = { testUrl, testId, blob, savedAt: new Date().toISOString() };
+  return runRequest(PACKAGES_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const getCachedPackage = async (testUrl: string): Promise<Blob | null> => {
+  const entry = await runRequest<CachedPackage | undefined>(PACKAGES_STORE, 'readonly', store => store.get(testUrl));
+  return entry?.blob ?? null;
+};
+
+// Drops cached packages that no saved attempt needs any more.
+export const pruneCachedPackages = async (): Promise<void> => {
+  const packages = await runRequest<CachedPackage[]>(PACKAGES_STORE, 'readonly', store => store.getAll());
+  for (const entry of packages) {
+    if (!(await getLatestCheckpoint(entry.testId))) {
+      await runRequest(PACKAGES_STORE, 'readwrite', store => store.delete(entry.testUrl));
+    }
+  }
+};
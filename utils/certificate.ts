@@ -0,0 +1,69 @@
+// Draws completion certificates as PNG images, which every device can open
+// and print without a PDF library.
+
+export interface CertificateDetails {
+  email: string;
+  testTitle: string;
+  score: number;
+  totalPossible: number;
+  completedAt: Date;
+  verificationCode: string;
+  verifyUrl: string; // Where the code can be checked
+}
+
+// A4 landscape at 150 dpi.
+const WIDTH = 1754;
+const HEIGHT = 1240;
+const MARGIN = 60;
+const FONT_FAMILY = 'Georgia, "Times New Roman", serif';
+
+// Shrinks the font until the text fits, for long test titles and email addresses.
+const fitText = (ctx: CanvasRenderingContext2D, text: string, y: number, maxSize: number, weight = 'normal') => {
+  let size = maxSize;
+  do {
+    ctx.font = `${weight} ${size}px ${FONT_FAMILY}`;
+    size -= 2;
+  } while (size > 16 && ctx.measureText(text).width > WIDTH - MARGIN * 4);
+  ctx.fillText(text, WIDTH / 2, y);
+};
+
+/** Renders a certificate for a passed attempt as a PNG image. */
+export const renderCertificate = (details: CertificateDetails): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('The certificate could not be drawn in this browser.'));
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.strokeStyle = '#6d28d9';
+  ctx.lineWidth = 12;
+  ctx.strokeRect(MARGIN, MARGIN, WIDTH - MARGIN * 2, HEIGHT - MARGIN * 2);
+  ctx.lineWidth = 2;
+  ctx.strokeRect(MARGIN + 24, MARGIN + 24, WIDTH - (MARGIN + 24) * 2, HEIGHT - (MARGIN + 24) * 2);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = '#4c1d95';
+  fitText(ctx, 'Certificate of Completion', 280, 84, 'bold');
+
+  ctx.fillStyle = '#374151';
+  fitText(ctx, 'This certifies that', 400, 36);
+  ctx.fillStyle = '#111827';
+  fitText(ctx, details.email, 490, 60, 'bold');
+  ctx.fillStyle = '#374151';
+  fitText(ctx, 'has passed', 580, 36);
+  ctx.fillStyle = '#111827';
+  fitText(ctx, details.testTitle, 670, 60, 'bold');
+  ctx.fillStyle = '#374151';
+  fitText(ctx, `with a score of ${details.score} / ${details.totalPossible} on ${details.completedAt.toLocaleDateString(undefined, { dateStyle: 'long' })}`, 760, 36);
+
+  ctx.fillStyle = '#6b7280';
+  fitText(ctx, `Verification code: ${details.verificationCode}`, HEIGHT - 220, 32, 'bold');
+  fitText(ctx, `Check this certificate at ${details.verifyUrl}`, HEIGHT - 170, 24);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The certificate could not be saved as an image.'))), 'image/png');
+  });
+};
@@ -0,0 +1,51 @@
+// Base URL of the file proxy. Defaults to the `api/proxy` route on the same
+// origin; set FILE_PROXY_URL at build time to point at another deployment.
+const FILE_PROXY_URL = process.env.FILE_PROXY_URL || '/api/proxy';
+
+// A download that failed. `status` is the HTTP status when there was one and
+// `code` the proxy's reason code when the proxy refused or failed the request.
+export class FileFetchError extends Error {
+  constructor(message: string, public status: number | null = null, public code: string | null = null) {
+    super(message);
+    this.name = 'FileFetchError';
+  }
+}
+
+export const getProxiedUrl = (url: string): string => {
+  const separator = FILE_PROXY_URL.includes('?') ? '&' : '?';
+  return `${FILE_PROXY_URL}${separator}url=${encodeURIComponent(url)}`;
+};
+
+const toFetchError = async (response: Response): Promise<FileFetchError> => {
+  // The proxy explains refusals and upstream failures as { success: false, code, message }.
+  if (response.headers.get('content-type')?.includes('application/json')) {
+    const body = await response.json().catch(() => null);
+    if (typeof body?.message === 'string') {
+      return new FileFetchError(body.message, response.status, typeof body.code === 'string' ? body.code : null);
+    }
+  }
+  return new FileFetchError(`Status: ${response.status} ${response.statusText}.`, response.status);
+};
+
+/**
+ * Downloads a file from another origin. Hosts that allow cross-origin reads are
+ * fetched directly; when the browser refuses (CORS, mixed content or a network
+ * error) the request goes through the file proxy instead. Resolves with a
+ * successful response whose body has not been read yet.
+ */
+export const fetchFile = async (url: string, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    try {
+      response = await fetch(getProxiedUrl(url), { signal });
+    } catch (proxyErr) {
+      if (signal?.aborted) throw proxyErr;
+      throw new FileFetchError('The file could not be downloaded. Check your connection and try again.');
+    }
+  }
+  if (!response.ok) throw await toFetchError(response);
+  return response;
+};
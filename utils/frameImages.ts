@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+
+// Decoded images kept around besides those on screen. Large tests would
+// otherwise hold every frame's image in memory at once.
+const DEFAULT_CAPACITY = 8;
+
+/**
+ * Turns frame images into object URLs on demand and keeps only a bounded number
+ * of them, releasing the least recently used first. Images that are on screen
+ * are held and never released while they are.
+ */
+export class FrameImageLoader {
+  private urls = new Map<string, string>(); // In order of last use
+  private pending = new Map<string, Promise<string>>();
+  private holds = new Map<string, number>();
+  private listeners = new Set<() => void>();
+  private disposed = false;
+
+  constructor(private readImage: (frameId: string) => Promise<Blob>, private capacity = DEFAULT_CAPACITY) {}
+
+  getUrl(frameId: string): string | null {
+    return this.urls.get(frameId) ?? null;
+  }
+
+  load(frameId: string): Promise<string> {
+    const url = this.urls.get(frameId);
+    if (url) {
+      this.urls.delete(frameId);
+      this.urls.set(frameId, url);
+      return Promise.resolve(url);
+    }
+    const existing = this.pending.get(frameId);
+    if (existing) return existing;
+
+    const loading = this.readImage(frameId)
+      .then(blob => {
+        if (this.disposed) throw new Error('The test has been closed.');
+        const loadedUrl = URL.createObjectURL(blob);
+        this.urls.set(frameId, loadedUrl);
+        this.release();
+        this.notify();
+        return loadedUrl;
+      })
+      .finally(() => this.pending.delete(frameId));
+    this.pending.set(frameId, loading);
+    return loading;
+  }
+
+  // Starts loading images that are likely to be needed soon.
+  prefetch(frameIds: string[]) {
+    frameIds.forEach(frameId => this.load(frameId).catch(err => console.warn(`Could not prefetch frame ${frameId}:`, err)));
+  }
+
+  // Keeps a frame's image loaded until the returned function is called.
+  hold(frameId: string): () => void {
+    this.holds.set(frameId, (this.holds.get(frameId) ?? 0) + 1);
+    return () => {
+      const count = (this.holds.get(frameId) ?? 1) - 1;
+      if (count > 0) this.holds.set(frameId, count);
+      else this.holds.delete(frameId);
+      this.release();
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.urls.forEach(url => URL.revokeObjectURL(url));
+    this.urls.clear();
+    this.listeners.clear();
+  }
+
+  private release() {
+    for (const [frameId, url] of this.urls) {
+      if (this.urls.size <= this.capacity) break;
+      if (this.holds.has(frameId)) continue;
+      URL.revokeObjectURL(url);
+      this.urls.delete(frameId);
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * The object URL of a frame's image, loading it if needed and holding it for
+ * as long as the calling component shows the frame. Null while it loads;
+ * `error` is set if it cannot be read.
+ */
+export const useFrameImage = (images: FrameImageLoader, frameId: string | null): { url: string | null, error: boolean } => {
+  const [url, setUrl] = useState<string | null>(() => (frameId ? images.getUrl(frameId) : null));
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setError(false);
+    if (!frameId) {
+      setUrl(null);
+      return;
+    }
+    const release = images.hold(frameId);
+    const update = () => setUrl(images.getUrl(frameId));
+    const unsubscribe = images.subscribe(update);
+    update();
+    images.load(frameId).then(update, err => {
+      console.error(`Could not load the image of frame ${frameId}:`, err);
+      setError(true);
+    });
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [images, frameId]);
+
+  return { url, error };
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { HotspotShape } from '../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Positions a box given in original image pixels as percentages of the
+// rendered frame, so overlays stay aligned at any display size.
+export const toPercentStyle = (rect: Rect, imageWidth: number, imageHeight: number): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${(rect.x / imageWidth) * 100}%`,
+  top: `${(rect.y / imageHeight) * 100}%`,
+  width: `${(rect.w / imageWidth) * 100}%`,
+  height: `${(rect.h / imageHeight) * 100}%`,
+});
+
+export const toPercentPoint = (point: Point, imageWidth: number, imageHeight: number): React.CSSProperties => ({
+  position: 'absolute',
+  left: `${(point.x / imageWidth) * 100}%`,
+  top: `${(point.y / imageHeight) * 100}%`,
+});
+
+// Converts a viewport position into original image pixels for a frame rendered inside `bounds`.
+export const toImagePoint = (
+  clientX: number,
+  clientY: number,
+  bounds: DOMRect,
+  imageWidth: number,
+  imageHeight: number
+): Point => ({
+  x: ((clientX - bounds.left) / bounds.width) * imageWidth,
+  y: ((clientY - bounds.top) / bounds.height) * imageHeight,
+});
+
+export interface Shape extends Rect {
+  shape?: HotspotShape;
+  vertices?: [number, number][];
+}
+
+export const boundingRect = (vertices: [number, number][]): Rect => {
+  const xs = vertices.map(([x]) => x);
+  const ys = vertices.map(([, y]) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+// Ray casting: a point is inside when a ray from it crosses the outline an odd number of times.
+const isPointInPolygon = (vertices: [number, number][], { x, y }: Point): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i];
+    const [xj, yj] = vertices[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Hit-tests a point in original image pixels against a shape.
+export const containsPoint = (shape: Shape, point: Point): boolean => {
+  if (shape.shape === 'polygon' && shape.vertices) {
+    return isPointInPolygon(shape.vertices, point);
+  }
+  if (shape.shape === 'ellipse') {
+    const rx = shape.w / 2;
+    const ry = shape.h / 2;
+    const dx = (point.x - (shape.x + rx)) / rx;
+    const dy = (point.y - (shape.y + ry)) / ry;
+    return dx * dx + dy * dy <= 1;
+  }
+  return point.x >= shape.x && point.x <= shape.x + shape.w && point.y >= shape.y && point.y <= shape.y + shape.h;
+};
+
+// Polygon vertices as percentages of the shape's own box.
+const toRelativeVertices = (shape: Shape): Point[] =>
+  (shape.vertices ?? []).map(([x, y]) => ({
+    x: shape.w > 0 ? ((x - shape.x) / shape.w) * 100 : 0,
+    y: shape.h > 0 ? ((y - shape.y) / shape.h) * 100 : 0,
+  }));
+
+// Cuts a box positioned with `toPercentStyle` down to its real shape. Browsers
+// hit-test rounded corners and clip paths, so clicks outside the shape miss it.
+export const toShapeStyle = (shape: Shape): React.CSSProperties => {
+  if (shape.shape === 'ellipse') return { borderRadius: '50%' };
+  if (shape.shape === 'polygon') {
+    return { clipPath: `polygon(${toRelativeVertices(shape).map(p => `${p.x}% ${p.y}%`).join(', ')})` };
+  }
+  return {};
+};
+
+// Polygon vertices for an SVG drawn over the shape's box with a 0 0 100 100 viewBox.
+export const toSvgPolygonPoints = (shape: Shape): string =>
+  toRelativeVertices(shape).map(p => `${p.x},${p.y}`).join(' ');
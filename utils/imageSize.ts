@@ -0,0 +1,100 @@
+// Reads the pixel size of an image from the first bytes of its file, so large
+// tests can be laid out without decoding every image up front.
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const u16be = (b: Uint8Array, i: number) => (b[i] << 8) | b[i + 1];
+const u16le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8);
+const u24le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16);
+const u32be = (b: Uint8Array, i: number) => ((b[i] << 24) >>> 0) + ((b[i + 1] << 16) | (b[i + 2] << 8) | b[i + 3]);
+const i32le = (b: Uint8Array, i: number) => b[i] | (b[i + 1] << 8) | (b[i + 2] << 16) | (b[i + 3] << 24);
+
+const readPng = (b: Uint8Array): ImageSize | null =>
+  b.length >= 24 && ascii(b, 12, 4) === 'IHDR' ? { width: u32be(b, 16), height: u32be(b, 20) } : null;
+
+const readGif = (b: Uint8Array): ImageSize | null =>
+  b.length >= 10 ? { width: u16le(b, 6), height: u16le(b, 8) } : null;
+
+const readBmp = (b: Uint8Array): ImageSize | null =>
+  b.length >= 26 ? { width: i32le(b, 18), height: Math.abs(i32le(b, 22)) } : null;
+
+const readWebp = (b: Uint8Array): ImageSize | null => {
+  if (b.length < 30) return null;
+  switch (ascii(b, 12, 4)) {
+    case 'VP8 ': return { width: u16le(b, 26) & 0x3fff, height: u16le(b, 28) & 0x3fff };
+    case 'VP8L': return {
+      width: 1 + (((b[22] & 0x3f) << 8) | b[21]),
+      height: 1 + (((b[24] & 0x0f) << 10) | (b[23] << 2) | ((b[22] & 0xc0) >> 6)),
+    };
+    case 'VP8X': return { width: 1 + u24le(b, 24), height: 1 + u24le(b, 27) };
+    default: return null;
+  }
+};
+
+// The EXIF orientation of a JPEG APP1 segment, 1 if it has none.
+const readExifOrientation = (b: Uint8Array, start: number, end: number): number => {
+  if (ascii(b, start, 6) !== 'Exif\0\0') return 1;
+  const tiff = start + 6;
+  const littleEndian = ascii(b, tiff, 2) === 'II';
+  const u16 = (i: number) => (littleEndian ? u16le(b, i) : u16be(b, i));
+  const u32 = (i: number) => (littleEndian ? (u16le(b, i) + u16le(b, i + 2) * 0x10000) : u32be(b, i));
+  const ifd = tiff + u32(tiff + 4);
+  if (ifd + 2 > end) return 1;
+  const count = u16(ifd);
+  for (let entry = ifd + 2; entry + 12 <= end && entry < ifd + 2 + count * 12; entry += 12) {
+    if (u16(entry) === 0x0112) return u16(entry + 8);
+  }
+  return 1;
+};
+
+// Walks the JPEG segments up to the frame header. Browsers apply the EXIF
+// orientation, so orientations 5 to 8 (rotated by 90 degrees) swap the sides.
+const readJpeg = (b: Uint8Array): ImageSize | null => {
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 9 < b.length) {
+    if (b[offset] !== 0xff) return null;
+    const marker = b[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    const length = u16be(b, offset + 2);
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = u16be(b, offset + 5);
+      const width = u16be(b, offset + 7);
+      return orientation >= 5 ? { width: height, height: width } : { width, height };
+    }
+    if (marker === 0xe1 && offset + 2 + length <= b.length) {
+      orientation = readExifOrientation(b, offset + 4, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+/**
+ * The size of a PNG, JPEG, GIF, WebP or BMP image, or null when the bytes are
+ * another format or stop before the size (a JPEG's can come after a large
+ * EXIF block, so more bytes may help).
+ */
+export const readImageSize = (bytes: Uint8Array): ImageSize | null => {
+  if (bytes.length < 12) return null;
+  let size: ImageSize | null = null;
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') size = readPng(bytes);
+  else if (bytes[0] === 0xff && bytes[1] === 0xd8) size = readJpeg(bytes);
+  else if (ascii(bytes, 0, 4) === 'GIF8') size = readGif(bytes);
+  else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') size = readWebp(bytes);
+  else if (ascii(bytes, 0, 2) === 'BM') size = readBmp(bytes);
+  return size && size.width > 0 && size.height > 0 ? size : null;
+};
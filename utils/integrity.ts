@@ -0,0 +1,112 @@
+import { useEffect, useRef } from 'react';
+import { IntegritySettings, IntegritySummary, SessionEvent } from '../types';
+
+type IntegrityEvent = Extract<SessionEvent, { type: 'integrity' }>;
+
+// What the monitor reports, before the player stamps it with the time and frame.
+export type IntegrityObservation = Omit<IntegrityEvent, 'type' | 'time' | 'frameId'>;
+
+export const DEFAULT_MAX_VIOLATIONS = 3;
+
+// Resizing is reported once the window has settled, not for every step of a drag.
+const RESIZE_SETTLE_MS = 500;
+
+export const wantsFullscreen = (settings: IntegritySettings) => settings.fullscreen !== false;
+
+// Browsers refuse fullscreen outside a click or key press, so call this from one.
+export const requestFullscreen = () => {
+  if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+  document.documentElement.requestFullscreen().catch(err => console.warn('Fullscreen was refused:', err));
+};
+
+/**
+ * Counts the violations in an attempt's events. Leaving the test counts once
+ * however the browser reports it (the page being hidden and the window losing
+ * focus usually come together) and lasts until either comes back; leaving
+ * fullscreen and pasting into an answer count each time.
+ */
+export const summarizeIntegrity = (events: SessionEvent[], settings: IntegritySettings): IntegritySummary => {
+  const counts: IntegritySummary['counts'] = {};
+  let violations = 0;
+  let awaySince: number | null = null;
+  let timeAwayMs = 0;
+  events.forEach(event => {
+    // A resumed attempt starts over with the candidate present; the reload in between is not time away.
+    if (event.type === 'test-start') awaySince = null;
+    if (event.type !== 'integrity') return;
+    counts[event.kind] = (counts[event.kind] ?? 0) + 1;
+    switch (event.kind) {
+      case 'hidden':
+      case 'blur':
+        if (awaySince === null) {
+          awaySince = event.time;
+          violations++;
+        }
+        break;
+      case 'visible':
+      case 'focus':
+        if (awaySince !== null) {
+          timeAwayMs += event.time - awaySince;
+          awaySince = null;
+        }
+        break;
+      case 'fullscreen-exit':
+      case 'paste':
+        violations++;
+        break;
+    }
+  });
+  return {
+    violations,
+    flagged: violations > (settings.maxViolations ?? DEFAULT_MAX_VIOLATIONS),
+    timeAwaySeconds: Math.round(timeAwayMs / 1000),
+    counts,
+  };
+};
+
+export const describeIntegritySummary = (summary: IntegritySummary): string => {
+  const parts = [`${summary.violations} violation${summary.violations === 1 ? '' : 's'}`];
+  if (summary.timeAwaySeconds > 0) parts.push(`${summary.timeAwaySeconds}s away from the test`);
+  if (summary.counts.paste) parts.push(`${summary.counts.paste} paste${summary.counts.paste === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
+
+/**
+ * Reports the candidate leaving the page, the window or fullscreen, and the
+ * window being resized (docking developer tools shrinks it), while `active`.
+ * Fullscreen is left again when monitoring stops.
+ */
+export const useIntegrityMonitor = (active: boolean, onObservation: (observation: IntegrityObservation) => void) => {
+  // Kept in a ref so a new callback does not re-register every listener.
+  const onObservationRef = useRef(onObservation);
+  onObservationRef.current = onObservation;
+
+  useEffect(() => {
+    if (!active) return;
+    const report = (observation: IntegrityObservation) => onObservationRef.current(observation);
+    const handleVisibilityChange = () => report({ kind: document.visibilityState === 'hidden' ? 'hidden' : 'visible' });
+    const handleBlur = () => report({ kind: 'blur' });
+    const handleFocus = () => report({ kind: 'focus' });
+    const handleFullscreenChange = () => report({ kind: document.fullscreenElement ? 'fullscreen-enter' : 'fullscreen-exit' });
+    let resizeTimer: ReturnType<typeof setTimeout> | undefined;
+    const handleResize = () => {
+      clearTimeout(resizeTimer);
+      resizeTimer = setTimeout(() => report({ kind: 'resize', width: window.innerWidth, height: window.innerHeight }), RESIZE_SETTLE_MS);
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    window.addEventListener('blur', handleBlur);
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('resize', handleResize);
+    return () => {
+      clearTimeout(resizeTimer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('resize', handleResize);
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, [active]);
+};
@@ -0,0 +1,72 @@
+import { AttemptSubmission, LeaderboardEntry, VerifiedResult } from '../types';
+
+// Base URL of the results API. Defaults to the routes under `api/` on the same
+// origin; set RESULTS_API_URL at build time to point at another deployment.
+const RESULTS_API_URL = (process.env.RESULTS_API_URL || '/api').replace(/\/$/, '');
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+}
+
+const readApiResponse = async <T>(response: Response, fallbackMessage: string): Promise<ApiResponse<T>> => {
+  let result: ApiResponse<T>;
+  try {
+    result = await response.json();
+  } catch {
+    throw new Error(`${fallbackMessage} (status ${response.status})`);
+  }
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || fallbackMessage);
+  }
+  return result;
+};
+
+export const fetchLeaderboard = async (testUrl: string): Promise<LeaderboardEntry[]> => {
+  const params = new URLSearchParams({ testUrl });
+  const response = await fetch(`${RESULTS_API_URL}/leaderboard?${params.toString()}`);
+  const result = await readApiResponse<LeaderboardEntry[]>(response, 'Failed to fetch leaderboard data.');
+  if (!Array.isArray(result.data)) {
+    throw new Error('Invalid leaderboard data format.');
+  }
+  return result.data;
+};
+
+// Resolves with the result as the results API scored and recorded it, verification code included.
+export const submitAttempt = async (testUrl: string, attempt: AttemptSubmission): Promise<LeaderboardEntry> => {
+  const response = await fetch(`${RESULTS_API_URL}/leaderboard`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ testUrl, attempt }),
+  });
+  const result = await readApiResponse<LeaderboardEntry>(response, 'Failed to submit score.');
+  if (!result.data) {
+    throw new Error('The results server did not return the recorded result.');
+  }
+  return result.data;
+};
+
+// The candidate's signed seed for assessments of a test with sections; the leaderboard only records attempts served from it.
+export const requestSeed = async (testUrl: string, email: string): Promise<string> => {
+  const response = await fetch(`${RESULTS_API_URL}/seed`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ testUrl, email }),
+  });
+  const result = await readApiResponse<{ seed: string }>(response, 'Could not start the attempt.');
+  if (typeof result.data?.seed !== 'string') {
+    throw new Error('The results server did not return a seed.');
+  }
+  return result.data.seed;
+};
+
+export const verifyResult = async (code: string): Promise<VerifiedResult> => {
+  const params = new URLSearchParams({ code });
+  const response = await fetch(`${RESULTS_API_URL}/verify?${params.toString()}`);
+  const result = await readApiResponse<VerifiedResult>(response, 'Could not check the verification code.');
+  if (!result.data) {
+    throw new Error('Invalid verification data format.');
+  }
+  return result.data;
+};
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { getDriveConfirmationUrl, LinkResolutionError, resolveShareLink } from './linkResolver';
+
+const DRIVE_DOWNLOAD = 'https://drive.usercontent.google.com/download?id=1AbC-d_E&export=download&confirm=t';
+
+// X-Amz-Date for a time relative to now.
+const amzDate = (offsetMs: number) => new Date(Date.now() + offsetMs).toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+describe('resolveShareLink', () => {
+  describe('Google Drive', () => {
+    it.each([
+      'https://drive.google.com/file/d/1AbC-d_E/view?usp=sharing',
+      'https://drive.google.com/open?id=1AbC-d_E',
+      'https://drive.google.com/uc?id=1AbC-d_E&export=download',
+      'https://docs.google.com/uc?export=download&id=1AbC-d_E',
+    ])('downloads %s directly', url => {
+      expect(resolveShareLink(url)).toMatchObject({ provider: 'google-drive', url: DRIVE_DOWNLOAD });
+    });
+
+    it('refuses folders and links without a file', () => {
+      expect(() => resolveShareLink('https://drive.google.com/drive/folders/1AbC')).toThrow(LinkResolutionError);
+      expect(() => resolveShareLink('https://drive.google.com/drive/my-drive')).toThrow('does not name a file');
+    });
+  });
+
+  describe('Dropbox', () => {
+    it('asks for the file with dl=1 and keeps the other parameters', () => {
+      const { provider, url } = resolveShareLink('https://www.dropbox.com/scl/fi/abc/test.zip?rlkey=xyz&dl=0');
+      expect(provider).toBe('dropbox');
+      expect(new URL(url).searchParams.get('dl')).toBe('1');
+      expect(new URL(url).searchParams.get('rlkey')).toBe('xyz');
+    });
+
+    it('drops raw=1, which dl=1 replaces', () => {
+      expect(new URL(resolveShareLink('https://dropbox.com/s/abc/test.zip?raw=1').url).searchParams.has('raw')).toBe(false);
+    });
+
+    it('refuses folders', () => {
+      expect(() => resolveShareLink('https://www.dropbox.com/scl/fo/abc/def?rlkey=xyz')).toThrow(LinkResolutionError);
+      expect(() => resolveShareLink('https://www.dropbox.com/sh/abc/def')).toThrow(LinkResolutionError);
+    });
+  });
+
+  describe('OneDrive and SharePoint', () => {
+    it('downloads OneDrive share links through the shares API', () => {
+      const shared = 'https://1drv.ms/u/s!AbCdEf?e=123';
+      expect(resolveShareLink(shared)).toMatchObject({
+        provider: 'onedrive',
+        url: `https://api.onedrive.com/v1.0/shares/u!${Buffer.from(shared).toString('base64url')}/root/content`,
+      });
+    });
+
+    it('leaves OneDrive download links as they are', () => {
+      const download = 'https://onedrive.live.com/download?cid=ABC&resid=ABC%21123&authkey=xyz';
+      expect(resolveShareLink(download)).toMatchObject({ provider: 'onedrive', url: download });
+    });
+
+    it('asks SharePoint for the file with download=1', () => {
+      const { provider, url } = resolveShareLink('https://contoso.sharepoint.com/:u:/g/personal/a_b/AbCdEf?e=123');
+      expect(provider).toBe('sharepoint');
+      expect(new URL(url).searchParams.get('download')).toBe('1');
+      expect(new URL(url).searchParams.get('e')).toBe('123');
+    });
+
+    it('refuses SharePoint folders', () => {
+      expect(() => resolveShareLink('https://contoso.sharepoint.com/:f:/g/personal/a_b/AbCdEf')).toThrow(LinkResolutionError);
+    });
+  });
+
+  describe('GitHub', () => {
+    it.each(['blob', 'raw'])('downloads %s links from raw.githubusercontent.com', kind => {
+      expect(resolveShareLink(`https://github.com/acme/tests/${kind}/main/packages/intro.zip`)).toMatchObject({
+        provider: 'github',
+        url: 'https://raw.githubusercontent.com/acme/tests/main/packages/intro.zip',
+      });
+    });
+
+    it('refuses folders', () => {
+      expect(() => resolveShareLink('https://github.com/acme/tests/tree/main/packages')).toThrow(LinkResolutionError);
+    });
+
+    it('leaves other GitHub links as they are', () => {
+      const release = 'https://github.com/acme/tests/releases/download/v1/intro.zip';
+      expect(resolveShareLink(release)).toMatchObject({ provider: 'github', url: release });
+    });
+  });
+
+  describe('S3', () => {
+    it('passes presigned links on exactly as given', () => {
+      const presigned = `https://bucket.s3.eu-west-1.amazonaws.com/test.zip?X-Amz-Algorithm=AWS4-HMAC-SHA256&X-Amz-Date=${amzDate(-60_000)}&X-Amz-Expires=3600&X-Amz-Signature=abc%2Fdef`;
+      expect(resolveShareLink(presigned)).toMatchObject({ provider: 's3', url: presigned });
+    });
+
+    it('passes S3 links without an expiry on', () => {
+      const plain = 'https://bucket.s3.amazonaws.com/test.zip';
+      expect(resolveShareLink(plain)).toMatchObject({ provider: 's3', url: plain });
+    });
+
+    it('refuses presigned links that have expired', () => {
+      const expired = `https://bucket.s3.amazonaws.com/test.zip?X-Amz-Date=${amzDate(-7_200_000)}&X-Amz-Expires=3600&X-Amz-Signature=abc`;
+      expect(() => resolveShareLink(expired)).toThrow('expired');
+    });
+  });
+
+  it.each([
+    'https://example.com/tests/intro.zip',
+    'https://example.com/download?file=intro.zip&token=a%2Fb',
+  ])('leaves %s unchanged', url => {
+    expect(resolveShareLink(url)).toEqual({ provider: 'direct', url, hint: null });
+  });
+
+  it('refuses text that is not a full link', () => {
+    expect(() => resolveShareLink('example.com/intro.zip')).toThrow(LinkResolutionError);
+  });
+});
+
+describe('getDriveConfirmationUrl', () => {
+  it('follows the download form of the virus-scan page', () => {
+    const html = `
+      <form id="download-form" action="https://drive.usercontent.google.com/download" method="get">
+        <input type="hidden" name="id" value="1AbC">
+        <input type="hidden" name="export" value="download">
+        <input type="hidden" name="confirm" value="t">
+        <input type="hidden" name="uuid" value="123-456">
+        <input type="submit" value="Download anyway">
+      </form>`;
+    expect(getDriveConfirmationUrl(html)).toBe('https://drive.usercontent.google.com/download?id=1AbC&export=download&confirm=t&uuid=123-456');
+  });
+
+  it('follows the download link of older pages', () => {
+    const html = '<a id="uc-download-link" href="/uc?export=download&amp;confirm=AbCd&amp;id=1AbC">Download anyway</a>';
+    expect(getDriveConfirmationUrl(html)).toBe('https://drive.google.com/uc?export=download&confirm=AbCd&id=1AbC');
+  });
+
+  it('returns null for other pages', () => {
+    expect(getDriveConfirmationUrl('<html><body><h1>Sign in</h1></body></html>')).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+// Turns the share links people paste from cloud storage into URLs that download
+// the file itself rather than a preview page.
+
+export type LinkProvider = 'google-drive' | 'dropbox' | 'onedrive' | 'sharepoint' | 'github' | 's3' | 'direct';
+
+export interface ResolvedLink {
+  provider: LinkProvider;
+  url: string; // What to download
+  hint: string | null; // Advice shown when the download fails or returns a web page
+}
+
+// A link that cannot lead to a file whatever the server says, e.g. a folder or an expired presigned URL.
+export class LinkResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinkResolutionError';
+  }
+}
+
+const HINTS: Record<Exclude<LinkProvider, 'direct'>, string> = {
+  'google-drive': 'For Google Drive links, please ensure the sharing permission is set to "Anyone with the link". Private files cannot be accessed.',
+  dropbox: 'For Dropbox links, make sure the link is a shared link to the file itself that anyone can open without signing in.',
+  onedrive: 'For OneDrive links, make sure the link is shared as "Anyone with the link can view".',
+  sharepoint: 'For SharePoint links, make sure the link is shared with "Anyone". Links limited to people in your organization need a sign-in and cannot be downloaded here.',
+  github: 'For GitHub links, make sure the repository is public and the branch and file path are correct.',
+  s3: 'Presigned S3 links stop working once they expire or if any part of the URL is changed. Ask for a fresh link and paste it exactly as given.',
+};
+
+const link = (provider: Exclude<LinkProvider, 'direct'>, url: string): ResolvedLink => ({ provider, url, hint: HINTS[provider] });
+
+// Downloads from drive.usercontent.google.com with confirm=t skip the virus-scan page that large files otherwise get.
+const driveDownloadUrl = (fileId: string) =>
+  `https://drive.usercontent.google.com/download?id=${encodeURIComponent(fileId)}&export=download&confirm=t`;
+
+const resolveGoogleDrive = (url: URL): ResolvedLink => {
+  if (url.pathname.includes('/folders/')) {
+    throw new LinkResolutionError('This is a link to a Google Drive folder. Share the test package (.zip) file itself instead.');
+  }
+  const fileId = /\/file\/d\/([\w-]+)/.exec(url.pathname)?.[1] ?? url.searchParams.get('id');
+  if (!fileId) {
+    throw new LinkResolutionError('This Google Drive link does not name a file. Use the "Copy link" option on the test package file.');
+  }
+  return link('google-drive', driveDownloadUrl(fileId));
+};
+
+const resolveDropbox = (url: URL): ResolvedLink => {
+  if (url.pathname.startsWith('/sh/') || url.pathname.startsWith('/scl/fo/')) {
+    throw new LinkResolutionError('This is a link to a Dropbox folder. Share the test package (.zip) file itself instead.');
+  }
+  // dl=1 asks for the file instead of the preview page; rlkey and other parameters must be kept.
+  url.searchParams.delete('raw');
+  url.searchParams.set('dl', '1');
+  return link('dropbox', url.toString());
+};
+
+// OneDrive share links are downloaded through the shares API, which takes the link itself base64url-encoded.
+const resolveOneDrive = (url: URL): ResolvedLink => {
+  if (url.hostname === 'onedrive.live.com' && url.pathname.startsWith('/download')) return link('onedrive', url.toString());
+  const encoded = btoa(url.toString()).replace(/=+$/, '').replace(/\//g, '_').replace(/\+/g, '-');
+  return link('onedrive', `https://api.onedrive.com/v1.0/shares/u!${encoded}/root/content`);
+};
+
+const resolveSharePoint = (url: URL): ResolvedLink => {
+  if (/^\/:f:\//.test(url.pathname)) {
+    throw new LinkResolutionError('This is a link to a SharePoint folder. Share the test package (.zip) file itself instead.');
+  }
+  url.searchParams.set('download', '1');
+  return link('sharepoint', url.toString());
+};
+
+const resolveGitHub = (url: URL): ResolvedLink => {
+  // github.com/<owner>/<repo>/(blob|raw)/<ref>/<path> serves an HTML page (blob) or redirects (raw); raw.githubusercontent.com serves the file.
+  const match = /^\/([^/]+)\/([^/]+)\/(blob|raw|tree)\/(.+)$/.exec(url.pathname);
+  if (match?.[3] === 'tree') {
+    throw new LinkResolutionError('This is a link to a GitHub folder. Open the test package (.zip) file and copy that link instead.');
+  }
+  if (!match) return link('github', url.toString());
+  const [, owner, repo, , rest] = match;
+  return link('github', `https://raw.githubusercontent.com/${owner}/${repo}/${rest}`);
+};
+
+// X-Amz-Date looks like 20240131T120000Z.
+const parseAmzDate = (value: string): number =>
+  Date.parse(value.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z'));
+
+// Presigned URLs are signed over their exact text, so they are passed on untouched.
+const resolveS3 = (rawUrl: string, url: URL): ResolvedLink => {
+  const signedAt = parseAmzDate(url.searchParams.get('X-Amz-Date') ?? '');
+  const expiresIn = Number(url.searchParams.get('X-Amz-Expires'));
+  if (Number.isFinite(signedAt) && Number.isFinite(expiresIn) && signedAt + expiresIn * 1000 < Date.now()) {
+    const expiredAt = new Date(signedAt + expiresIn * 1000);
+    throw new LinkResolutionError(`This presigned S3 link expired on ${expiredAt.toLocaleString()}. Ask for a fresh link.`);
+  }
+  return link('s3', rawUrl);
+};
+
+const isS3Host = (hostname: string) => /(^|\.)s3[.-]([a-z0-9-]+\.)?amazonaws\.com$/.test(hostname);
+
+const isPresigned = (url: URL) =>
+  url.searchParams.has('X-Amz-Signature') || (url.searchParams.has('Signature') && url.searchParams.has('AWSAccessKeyId'));
+
+/**
+ * Works out what to download for a pasted link: Google Drive, Dropbox,
+ * OneDrive, SharePoint and GitHub share links are rewritten to their direct
+ * download form, presigned S3 URLs are checked for expiry, and anything else is
+ * downloaded as it is. Throws `LinkResolutionError` for links that cannot work.
+ */
+export const resolveShareLink = (rawUrl: string): ResolvedLink => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new LinkResolutionError('Please enter a full link starting with https://.');
+  }
+  const host = url.hostname.toLowerCase();
+
+  if (host === 'drive.google.com' || (host === 'docs.google.com' && url.pathname.startsWith('/uc'))) return resolveGoogleDrive(url);
+  if (host === 'dropbox.com' || host === 'www.dropbox.com') return resolveDropbox(url);
+  if (host === '1drv.ms' || host === 'onedrive.live.com') return resolveOneDrive(url);
+  if (host.endsWith('.sharepoint.com')) return resolveSharePoint(url);
+  if (host === 'github.com') return resolveGitHub(url);
+  if (isS3Host(host) || isPresigned(url)) return resolveS3(rawUrl, url);
+  return { provider: 'direct', url: rawUrl, hint: null };
+};
+
+/**
+ * Google Drive answers some downloads with a page asking to confirm that the
+ * file could not be scanned for viruses. Returns the URL the page's "Download
+ * anyway" button leads to, or null if `html` is not such a page.
+ */
+export const getDriveConfirmationUrl = (html: string): string | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const form = doc.querySelector<HTMLFormElement>('form#download-form');
+  if (form) {
+    const params = new URLSearchParams();
+    form.querySelectorAll<HTMLInputElement>('input[name]').forEach(input => params.set(input.name, input.value));
+    const action = new URL(form.getAttribute('action') || '/download', 'https://drive.usercontent.google.com');
+    params.forEach((value, key) => action.searchParams.set(key, value));
+    return action.toString();
+  }
+  // Older pages link to uc?export=download&confirm=<token>&id=<id>.
+  const href = doc.querySelector('a#uc-download-link')?.getAttribute('href');
+  return href ? new URL(href, 'https://drive.google.com').toString() : null;
+};
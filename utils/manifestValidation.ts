@@ -0,0 +1,685 @@
+import { Checkbox, DragTarget, Frame as RawFrame, Hotspot, Input, IntegritySettings, Manifest, ManifestIssue, PracticeSettings, ScoringPolicy, Section, SelectField, Shortcut, TestMetadata } from '../types';
+import { findFlowIssues, frameIdAt, resolveFrameRef } from './testFlow';
+import { boundingRect, Rect } from './geometry';
+import { normalizeShortcut } from './shortcuts';
+
+// Thrown when a manifest fails validation. Carries every issue found so the
+// error screen can list them instead of showing only the first problem.
+export class ManifestValidationError extends Error {
+  issues: ManifestIssue[];
+
+  constructor(issues: ManifestIssue[], message = 'The test manifest is invalid.') {
+    super(message);
+    this.name = 'ManifestValidationError';
+    this.issues = issues;
+  }
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array (length ${value.length})`;
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  if (typeof value === 'number') return Number.isFinite(value) ? `number ${value}` : `number ${String(value)}`;
+  return typeof value;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Collects issues for one frame while keeping the frame index and path prefix in one place.
+class IssueCollector {
+  constructor(private issues: ManifestIssue[], private frameIndex: number | null) {}
+
+  add(path: string, expected: string, actual: string) {
+    this.issues.push({ frameIndex: this.frameIndex, path, expected, actual });
+  }
+
+  addValue(path: string, expected: string, value: unknown) {
+    this.add(path, expected, describeValue(value));
+  }
+}
+
+const validateRect = (raw: Record<string, unknown>, path: string, collector: IssueCollector): boolean => {
+  let valid = true;
+  for (const key of ['x', 'y'] as const) {
+    if (!isFiniteNumber(raw[key])) {
+      collector.addValue(`${path}.${key}`, 'finite number', raw[key]);
+      valid = false;
+    } else if (raw[key] < 0) {
+      collector.addValue(`${path}.${key}`, 'number >= 0', raw[key]);
+      valid = false;
+    }
+  }
+  for (const key of ['w', 'h'] as const) {
+    if (!isFiniteNumber(raw[key])) {
+      collector.addValue(`${path}.${key}`, 'finite number', raw[key]);
+      valid = false;
+    } else if (raw[key] <= 0) {
+      collector.addValue(`${path}.${key}`, 'number > 0', raw[key]);
+      valid = false;
+    }
+  }
+  return valid;
+};
+
+const validateLabel = (raw: Record<string, unknown>, path: string, collector: IssueCollector): boolean => {
+  if (typeof raw.label !== 'string') {
+    collector.addValue(`${path}.label`, 'string', raw.label);
+    return false;
+  }
+  return true;
+};
+
+const validatePoints = (raw: Record<string, unknown>, path: string, collector: IssueCollector): boolean => {
+  if (raw.points !== undefined && (!isFiniteNumber(raw.points) || raw.points < 0)) {
+    collector.addValue(`${path}.points`, 'number >= 0 or omitted', raw.points);
+    return false;
+  }
+  return true;
+};
+
+const HOTSPOT_SHAPES = ['rect', 'ellipse', 'polygon'];
+const HOTSPOT_ACTIONS = ['click', 'doubleClick', 'rightClick', 'hover'];
+
+// Polygons need at least three [x, y] corners enclosing some area.
+const validateVertices = (raw: unknown, path: string, collector: IssueCollector): [number, number][] | null => {
+  const isVertex = (v: unknown) => Array.isArray(v) && v.length === 2 && isFiniteNumber(v[0]) && isFiniteNumber(v[1]) && v[0] >= 0 && v[1] >= 0;
+  if (!Array.isArray(raw) || raw.length < 3 || !raw.every(isVertex)) {
+    collector.addValue(path, 'array of at least 3 [x, y] pairs of numbers >= 0', raw);
+    return null;
+  }
+  const vertices = raw as [number, number][];
+  const { w, h } = boundingRect(vertices);
+  if (w <= 0 || h <= 0) {
+    collector.add(path, 'vertices enclosing an area', 'all on one line');
+    return null;
+  }
+  return vertices;
+};
+
+// `target` and `next` name a frame by id or image name, or are null to end the test.
+const validateFrameRef = (value: unknown, path: string, collector: IssueCollector): boolean => {
+  if (value !== undefined && value !== null && (typeof value !== 'string' || value.trim() === '')) {
+    collector.addValue(path, 'frame id or image name, null or omitted', value);
+    return false;
+  }
+  return true;
+};
+
+const validateHotspot = (raw: unknown, path: string, collector: IssueCollector): Hotspot | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return null;
+  }
+  let valid = true;
+  let derivedRect = {};
+  if (raw.shape !== undefined && !HOTSPOT_SHAPES.includes(raw.shape as string)) {
+    collector.addValue(`${path}.shape`, '"rect", "ellipse", "polygon" or omitted', raw.shape);
+    valid = false;
+  } else if (raw.shape === 'polygon') {
+    // A polygon's box is derived from its vertices, so x/y/w/h are not needed.
+    const vertices = validateVertices(raw.vertices, `${path}.vertices`, collector);
+    if (vertices) derivedRect = boundingRect(vertices);
+    else valid = false;
+  } else {
+    valid = validateRect(raw, path, collector);
+    if (raw.vertices !== undefined) {
+      collector.addValue(`${path}.vertices`, 'omitted unless shape is "polygon"', raw.vertices);
+      valid = false;
+    }
+  }
+  valid = validateLabel(raw, path, collector) && valid;
+  valid = validatePoints(raw, path, collector) && valid;
+  if (raw.action !== undefined && !HOTSPOT_ACTIONS.includes(raw.action as string)) {
+    collector.addValue(`${path}.action`, '"click", "doubleClick", "rightClick", "hover" or omitted', raw.action);
+    valid = false;
+  }
+  if (raw.order !== undefined && (!Number.isInteger(raw.order) || (raw.order as number) < 1)) {
+    collector.addValue(`${path}.order`, 'integer >= 1 or omitted', raw.order);
+    valid = false;
+  }
+  valid = validateFrameRef(raw.target, `${path}.target`, collector) && valid;
+  if (raw.mistake !== undefined && typeof raw.mistake !== 'boolean') {
+    collector.addValue(`${path}.mistake`, 'boolean', raw.mistake);
+    valid = false;
+  }
+  return valid ? ({ ...raw, ...derivedRect } as unknown as Hotspot) : null;
+};
+
+const validateMatchSpec = (raw: unknown, path: string, collector: IssueCollector): boolean => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return false;
+  }
+  let valid = true;
+  if (raw.accept !== undefined && (!Array.isArray(raw.accept) || raw.accept.some(a => typeof a !== 'string'))) {
+    collector.addValue(`${path}.accept`, 'array of strings', raw.accept);
+    valid = false;
+  }
+  for (const key of ['caseSensitive', 'normalizeWhitespace'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      collector.addValue(`${path}.${key}`, 'boolean', raw[key]);
+      valid = false;
+    }
+  }
+  if (raw.patternFlags !== undefined && typeof raw.patternFlags !== 'string') {
+    collector.addValue(`${path}.patternFlags`, 'string', raw.patternFlags);
+    valid = false;
+  }
+  if (raw.pattern !== undefined) {
+    if (typeof raw.pattern !== 'string') {
+      collector.addValue(`${path}.pattern`, 'string', raw.pattern);
+      valid = false;
+    } else {
+      try {
+        new RegExp(raw.pattern, typeof raw.patternFlags === 'string' ? raw.patternFlags : undefined);
+      } catch (err) {
+        collector.add(`${path}.pattern`, 'valid regular expression', err instanceof Error ? err.message : 'invalid');
+        valid = false;
+      }
+    }
+  }
+  if (raw.numeric !== undefined) {
+    if (!isPlainObject(raw.numeric)) {
+      collector.addValue(`${path}.numeric`, 'object', raw.numeric);
+      valid = false;
+    } else {
+      if (!isFiniteNumber(raw.numeric.value)) {
+        collector.addValue(`${path}.numeric.value`, 'finite number', raw.numeric.value);
+        valid = false;
+      }
+      const tolerance = raw.numeric.tolerance;
+      if (tolerance !== undefined && (!isFiniteNumber(tolerance) || tolerance < 0)) {
+        collector.addValue(`${path}.numeric.tolerance`, 'number >= 0 or omitted', tolerance);
+        valid = false;
+      }
+    }
+  }
+  return valid;
+};
+
+const validateInput = (raw: unknown, path: string, collector: IssueCollector): Input | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return null;
+  }
+  let valid = validateRect(raw, path, collector);
+  valid = validateLabel(raw, path, collector) && valid;
+  valid = validatePoints(raw, path, collector) && valid;
+  if (typeof raw.expected !== 'string') {
+    collector.addValue(`${path}.expected`, 'string', raw.expected);
+    valid = false;
+  }
+  if (raw.match !== undefined) {
+    valid = validateMatchSpec(raw.match, `${path}.match`, collector) && valid;
+  }
+  return valid ? (raw as unknown as Input) : null;
+};
+
+const validateSelect = (raw: unknown, path: string, collector: IssueCollector): SelectField | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return null;
+  }
+  let valid = validateRect(raw, path, collector);
+  valid = validateLabel(raw, path, collector) && valid;
+  valid = validatePoints(raw, path, collector) && valid;
+  if (!Array.isArray(raw.options) || raw.options.length === 0 || raw.options.some(o => typeof o !== 'string')) {
+    collector.addValue(`${path}.options`, 'non-empty array of strings', raw.options);
+    valid = false;
+  } else if (typeof raw.expected !== 'string' || !raw.options.includes(raw.expected)) {
+    collector.addValue(`${path}.expected`, 'one of the options', raw.expected);
+    valid = false;
+  }
+  return valid ? (raw as unknown as SelectField) : null;
+};
+
+const validateCheckbox = (raw: unknown, path: string, collector: IssueCollector): Checkbox | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return null;
+  }
+  let valid = validateRect(raw, path, collector);
+  valid = validateLabel(raw, path, collector) && valid;
+  valid = validatePoints(raw, path, collector) && valid;
+  if (typeof raw.expected !== 'boolean') {
+    collector.addValue(`${path}.expected`, 'boolean', raw.expected);
+    valid = false;
+  }
+  return valid ? (raw as unknown as Checkbox) : null;
+};
+
+const validateDrag = (raw: unknown, path: string, collector: IssueCollector): DragTarget | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return null;
+  }
+  let valid = validateRect(raw, path, collector);
+  valid = validateLabel(raw, path, collector) && valid;
+  valid = validatePoints(raw, path, collector) && valid;
+  if (!isPlainObject(raw.to)) {
+    collector.addValue(`${path}.to`, 'object with x, y, w and h', raw.to);
+    valid = false;
+  } else {
+    valid = validateRect(raw.to, `${path}.to`, collector) && valid;
+  }
+  return valid ? (raw as unknown as DragTarget) : null;
+};
+
+const validateShortcut = (raw: unknown, path: string, collector: IssueCollector): Shortcut | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue(path, 'object', raw);
+    return null;
+  }
+  let valid = validateLabel(raw, path, collector);
+  valid = validatePoints(raw, path, collector) && valid;
+  if (typeof raw.keys !== 'string' || normalizeShortcut(raw.keys) === null) {
+    collector.addValue(`${path}.keys`, 'shortcut such as "Ctrl+Shift+S" with exactly one key', raw.keys);
+    valid = false;
+  }
+  return valid ? (raw as unknown as Shortcut) : null;
+};
+
+// Validates one of a frame's optional box lists; omitted lists are left out of the frame.
+const validateOptionalList = <T>(
+  raw: unknown,
+  key: string,
+  validateItem: (item: unknown, path: string, collector: IssueCollector) => T | null,
+  collector: IssueCollector
+): { items?: T[], valid: boolean } => {
+  if (raw === undefined) return { valid: true };
+  if (!Array.isArray(raw)) {
+    collector.addValue(key, 'array or omitted', raw);
+    return { valid: false };
+  }
+  const items: T[] = [];
+  let valid = true;
+  raw.forEach((item, i) => {
+    const parsed = validateItem(item, `${key}[${i}]`, collector);
+    if (parsed) items.push(parsed);
+    else valid = false;
+  });
+  return { items, valid };
+};
+
+// Ordered hotspots are played as a sequence starting at 1, so the orders in a
+// frame must be unique and contiguous.
+const validateHotspotOrder = (hotspots: Hotspot[], collector: IssueCollector) => {
+  const seen = new Map<number, number>();
+  hotspots.forEach((hotspot, index) => {
+    if (hotspot.order === undefined) return;
+    const firstIndex = seen.get(hotspot.order);
+    if (firstIndex !== undefined) {
+      collector.add(
+        `hotspots[${index}].order`,
+        `unique order (already used by hotspots[${firstIndex}])`,
+        `number ${hotspot.order}`
+      );
+    } else {
+      seen.set(hotspot.order, index);
+    }
+  });
+
+  if (seen.size === 0) return;
+  const maxOrder = Math.max(...seen.keys());
+  for (let order = 1; order <= maxOrder; order++) {
+    if (!seen.has(order)) {
+      collector.add('hotspots[].order', `contiguous sequence 1..${maxOrder}`, `order ${order} missing`);
+    }
+  }
+};
+
+const validateTimeLimit = (value: unknown, path: string, collector: IssueCollector): boolean => {
+  if (value !== undefined && (!isFiniteNumber(value) || value <= 0)) {
+    collector.addValue(path, 'number of seconds > 0 or omitted', value);
+    return false;
+  }
+  return true;
+};
+
+const ADVANCE_MODES = ['auto', 'enter', 'continue'];
+
+// `advance` is a mode or names the hotspot, by index, whose click finishes the frame.
+const validateAdvance = (value: unknown, hotspots: unknown, collector: IssueCollector): boolean => {
+  if (value === undefined || ADVANCE_MODES.includes(value as string)) return true;
+  if (!isPlainObject(value)) {
+    collector.addValue('advance', '"auto", "enter", "continue", { hotspot: index } or omitted', value);
+    return false;
+  }
+  const count = Array.isArray(hotspots) ? hotspots.length : 0;
+  const index = value.hotspot;
+  if (!Number.isInteger(index) || (index as number) < 0 || (index as number) >= count) {
+    collector.addValue('advance.hotspot', count > 0 ? `index of a hotspot (0..${count - 1})` : 'index of a hotspot, but the frame has none', index);
+    return false;
+  }
+  const hotspot = (hotspots as unknown[])[index as number];
+  if (isPlainObject(hotspot) && hotspot.mistake === true) {
+    collector.add('advance.hotspot', 'hotspot that is not a wrong choice', `hotspots[${index}] has mistake: true`);
+    return false;
+  }
+  return true;
+};
+
+const validateFrame = (raw: unknown, frameIndex: number, issues: ManifestIssue[]): RawFrame | null => {
+  const collector = new IssueCollector(issues, frameIndex);
+  if (!isPlainObject(raw)) {
+    collector.addValue('', 'object', raw);
+    return null;
+  }
+
+  let valid = true;
+  if (typeof raw.image !== 'string' || raw.image.trim() === '') {
+    collector.addValue('image', 'non-empty string', raw.image);
+    valid = false;
+  }
+
+  const hotspots: Hotspot[] = [];
+  if (!Array.isArray(raw.hotspots)) {
+    collector.addValue('hotspots', 'array', raw.hotspots);
+    valid = false;
+  } else {
+    raw.hotspots.forEach((h, i) => {
+      const hotspot = validateHotspot(h, `hotspots[${i}]`, collector);
+      if (hotspot) hotspots.push(hotspot);
+      else valid = false;
+    });
+    if (hotspots.length === raw.hotspots.length) {
+      const before = issues.length;
+      validateHotspotOrder(hotspots, collector);
+      valid = valid && issues.length === before;
+    }
+  }
+
+  const inputs: Input[] = [];
+  if (!Array.isArray(raw.inputs)) {
+    collector.addValue('inputs', 'array', raw.inputs);
+    valid = false;
+  } else {
+    raw.inputs.forEach((input, i) => {
+      const parsed = validateInput(input, `inputs[${i}]`, collector);
+      if (parsed) inputs.push(parsed);
+      else valid = false;
+    });
+  }
+
+  const selects = validateOptionalList(raw.selects, 'selects', validateSelect, collector);
+  const checkboxes = validateOptionalList(raw.checkboxes, 'checkboxes', validateCheckbox, collector);
+  const drags = validateOptionalList(raw.drags, 'drags', validateDrag, collector);
+  const shortcuts = validateOptionalList(raw.shortcuts, 'shortcuts', validateShortcut, collector);
+  valid = selects.valid && checkboxes.valid && drags.valid && shortcuts.valid && valid;
+
+  if (raw.id !== undefined && (typeof raw.id !== 'string' || raw.id.trim() === '')) {
+    collector.addValue('id', 'non-empty string or omitted', raw.id);
+    valid = false;
+  }
+  valid = validateTimeLimit(raw.timeLimitSeconds, 'timeLimitSeconds', collector) && valid;
+  valid = validateFrameRef(raw.next, 'next', collector) && valid;
+  valid = validateAdvance(raw.advance, raw.hotspots, collector) && valid;
+
+  const frame: RawFrame = { image: raw.image as string, hotspots, inputs };
+  if (raw.id !== undefined) frame.id = raw.id as string;
+  if (selects.items) frame.selects = selects.items;
+  if (checkboxes.items) frame.checkboxes = checkboxes.items;
+  if (drags.items) frame.drags = drags.items;
+  if (shortcuts.items) frame.shortcuts = shortcuts.items;
+  if (raw.timeLimitSeconds !== undefined) frame.timeLimitSeconds = raw.timeLimitSeconds as number;
+  if (raw.next !== undefined) frame.next = raw.next as string | null;
+  if (raw.advance !== undefined) frame.advance = raw.advance as RawFrame['advance'];
+  return valid ? frame : null;
+};
+
+const validateScoringPolicy = (raw: unknown, collector: IssueCollector): ScoringPolicy | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue('scoring', 'object', raw);
+    return null;
+  }
+  let valid = true;
+  for (const key of ['hotspotPenalty', 'backgroundPenalty', 'maxPenaltyPerFrame'] as const) {
+    if (raw[key] !== undefined && (!isFiniteNumber(raw[key]) || raw[key] < 0)) {
+      collector.addValue(`scoring.${key}`, 'number >= 0 or omitted', raw[key]);
+      valid = false;
+    }
+  }
+  if (raw.escalatePenalties !== undefined && typeof raw.escalatePenalties !== 'boolean') {
+    collector.addValue('scoring.escalatePenalties', 'boolean', raw.escalatePenalties);
+    valid = false;
+  }
+  if (raw.sequenceCredit !== undefined && raw.sequenceCredit !== 'perStep' && raw.sequenceCredit !== 'allOrNothing') {
+    collector.addValue('scoring.sequenceCredit', '"perStep" or "allOrNothing"', raw.sequenceCredit);
+    valid = false;
+  }
+  return valid ? (raw as ScoringPolicy) : null;
+};
+
+const validatePracticeSettings = (raw: unknown, collector: IssueCollector): PracticeSettings | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue('practice', 'object', raw);
+    return null;
+  }
+  if (raw.revealAfterMistakes !== undefined && (!Number.isInteger(raw.revealAfterMistakes) || (raw.revealAfterMistakes as number) < 0)) {
+    collector.addValue('practice.revealAfterMistakes', 'integer >= 0 or omitted', raw.revealAfterMistakes);
+    return null;
+  }
+  return raw as PracticeSettings;
+};
+
+const INTEGRITY_LIMIT_ACTIONS = ['flag', 'block'];
+
+const validateIntegritySettings = (raw: unknown, collector: IssueCollector): IntegritySettings | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue('integrity', 'object', raw);
+    return null;
+  }
+  let valid = true;
+  if (raw.fullscreen !== undefined && typeof raw.fullscreen !== 'boolean') {
+    collector.addValue('integrity.fullscreen', 'boolean or omitted', raw.fullscreen);
+    valid = false;
+  }
+  if (raw.maxViolations !== undefined && (!Number.isInteger(raw.maxViolations) || (raw.maxViolations as number) < 0)) {
+    collector.addValue('integrity.maxViolations', 'integer >= 0 or omitted', raw.maxViolations);
+    valid = false;
+  }
+  if (raw.onLimit !== undefined && !INTEGRITY_LIMIT_ACTIONS.includes(raw.onLimit as string)) {
+    collector.addValue('integrity.onLimit', `one of ${INTEGRITY_LIMIT_ACTIONS.join(', ')} or omitted`, raw.onLimit);
+    valid = false;
+  }
+  return valid ? raw as IntegritySettings : null;
+};
+
+const METADATA_TEXT_FIELDS = ['title', 'description', 'author', 'version', 'instructions'] as const;
+
+const validateMetadata = (root: Record<string, unknown>, collector: IssueCollector): TestMetadata => {
+  const metadata: TestMetadata = {};
+  for (const key of METADATA_TEXT_FIELDS) {
+    if (root[key] === undefined) continue;
+    if (typeof root[key] !== 'string' || root[key].trim() === '') {
+      collector.addValue(key, 'non-empty string or omitted', root[key]);
+    } else {
+      metadata[key] = root[key];
+    }
+  }
+  if (root.estimatedDurationMinutes !== undefined) {
+    if (!isFiniteNumber(root.estimatedDurationMinutes) || root.estimatedDurationMinutes <= 0) {
+      collector.addValue('estimatedDurationMinutes', 'number of minutes > 0 or omitted', root.estimatedDurationMinutes);
+    } else {
+      metadata.estimatedDurationMinutes = root.estimatedDurationMinutes;
+    }
+  }
+  if (root.passingScore !== undefined) {
+    const percent = typeof root.passingScore === 'string' ? /^(\d+(?:\.\d+)?)%$/.exec(root.passingScore.trim())?.[1] : undefined;
+    if (isFiniteNumber(root.passingScore) && root.passingScore >= 0) {
+      metadata.passingScore = root.passingScore;
+    } else if (percent !== undefined && Number(percent) <= 100) {
+      metadata.passingScore = `${Number(percent)}%`;
+    } else {
+      collector.addValue('passingScore', 'points >= 0, a percentage such as "80%", or omitted', root.passingScore);
+    }
+  }
+  return metadata;
+};
+
+// `images` maps image names to data: URLs of base64 images or to http(s) URLs.
+const validateImageSources = (raw: unknown, collector: IssueCollector): Record<string, string> | null => {
+  if (!isPlainObject(raw)) {
+    collector.addValue('images', 'object mapping image names to URLs', raw);
+    return null;
+  }
+  let valid = true;
+  for (const [name, url] of Object.entries(raw)) {
+    if (typeof url !== 'string' || !/^(data:image\/[\w.+-]+;base64,|https?:\/\/)/i.test(url)) {
+      collector.addValue(`images.${name}`, 'data:image/...;base64 or http(s) URL', url);
+      valid = false;
+    }
+  }
+  return valid ? raw as Record<string, string> : null;
+};
+
+const isSection = (value: unknown): value is Record<string, unknown> & { frames: unknown[] } =>
+  isPlainObject(value) && Array.isArray(value.frames);
+
+// Sections must list every frame exactly once. They only make sense for linear
+// tests: a random order cannot be combined with frames that say where they lead.
+const validateSections = (raw: unknown, frames: RawFrame[], collector: IssueCollector): Section[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    collector.addValue('sections', 'non-empty array of sections', raw);
+    return null;
+  }
+  let valid = true;
+  if (frames.some(frame => frame.next !== undefined || frame.hotspots.some(hotspot => hotspot.target !== undefined))) {
+    collector.add('sections', 'a linear test (no `next` or hotspot `target`)', 'a branching test');
+    valid = false;
+  }
+  const sectionOf = new Map<number, number>();
+  raw.forEach((section, i) => {
+    const path = `sections[${i}]`;
+    if (!isSection(section) || section.frames.length === 0) {
+      collector.addValue(`${path}.frames`, 'non-empty array of frame ids or image names', isPlainObject(section) ? section.frames : section);
+      valid = false;
+      return;
+    }
+    if (section.title !== undefined && typeof section.title !== 'string') {
+      collector.addValue(`${path}.title`, 'string or omitted', section.title);
+      valid = false;
+    }
+    if (section.shuffle !== undefined && typeof section.shuffle !== 'boolean') {
+      collector.addValue(`${path}.shuffle`, 'boolean or omitted', section.shuffle);
+      valid = false;
+    }
+    if (section.draw !== undefined && (!Number.isInteger(section.draw) || (section.draw as number) < 1 || (section.draw as number) > section.frames.length)) {
+      collector.addValue(`${path}.draw`, `integer from 1 to ${section.frames.length} or omitted`, section.draw);
+      valid = false;
+    }
+    section.frames.forEach((ref, j) => {
+      const index = typeof ref === 'string' ? resolveFrameRef(frames, ref) : -1;
+      if (index === -1) {
+        collector.addValue(`${path}.frames[${j}]`, 'id or image name of a frame', ref);
+        valid = false;
+      } else if (sectionOf.has(index)) {
+        collector.add(`${path}.frames[${j}]`, 'frame listed in one section only', `"${ref}" is also listed in sections[${sectionOf.get(index)}]`);
+        valid = false;
+      } else {
+        sectionOf.set(index, i);
+      }
+    });
+  });
+  frames.forEach((frame, index) => {
+    if (valid && !sectionOf.has(index)) {
+      collector.add('sections', 'every frame listed in a section', `frame ${index + 1} ("${frameIdAt(frame, index)}") is in none`);
+    }
+  });
+  return valid && sectionOf.size === frames.length ? raw as Section[] : null;
+};
+
+/**
+ * Validates a parsed manifest against the `Manifest`/`Frame`/`Hotspot`/`Input`
+ * shapes, then checks the flow between frames. Accepts either a bare array of
+ * frames or an object with a `frames` array. Every problem is collected; a `ManifestValidationError` listing all
+ * of them is thrown if any are found.
+ */
+export const validateManifest = (raw: unknown): Manifest => {
+  const issues: ManifestIssue[] = [];
+  const rootCollector = new IssueCollector(issues, null);
+  const root: Record<string, unknown> = Array.isArray(raw) ? { frames: raw } : isPlainObject(raw) ? raw : {};
+  if (!Array.isArray(raw) && !isPlainObject(raw)) {
+    throw new ManifestValidationError([{ frameIndex: null, path: '', expected: 'array of frames or manifest object', actual: describeValue(raw) }]);
+  }
+  if (!Array.isArray(root.frames)) {
+    throw new ManifestValidationError([{ frameIndex: null, path: 'frames', expected: 'array of frames', actual: describeValue(root.frames) }]);
+  }
+  if (root.frames.length === 0) {
+    throw new ManifestValidationError([{ frameIndex: null, path: 'frames', expected: 'at least one frame', actual: 'empty array' }]);
+  }
+
+  const manifest: Manifest = { ...validateMetadata(root, rootCollector), frames: [] };
+  if (root.scoring !== undefined) {
+    manifest.scoring = validateScoringPolicy(root.scoring, rootCollector) ?? undefined;
+  }
+  if (root.practice !== undefined) {
+    manifest.practice = validatePracticeSettings(root.practice, rootCollector) ?? undefined;
+  }
+  if (validateTimeLimit(root.timeLimitSeconds, 'timeLimitSeconds', rootCollector) && root.timeLimitSeconds !== undefined) {
+    manifest.timeLimitSeconds = root.timeLimitSeconds as number;
+  }
+  if (root.integrity !== undefined) {
+    manifest.integrity = validateIntegritySettings(root.integrity, rootCollector) ?? undefined;
+  }
+  if (root.images !== undefined) {
+    manifest.images = validateImageSources(root.images, rootCollector) ?? undefined;
+  }
+
+  const frames = root.frames.map((frame, index) => validateFrame(frame, index, issues));
+  if (issues.length === 0) {
+    issues.push(...findFlowIssues(frames as RawFrame[]));
+  }
+  if (issues.length === 0 && root.sections !== undefined) {
+    manifest.sections = validateSections(root.sections, frames as RawFrame[], rootCollector) ?? undefined;
+  }
+  if (issues.length > 0) {
+    throw new ManifestValidationError(issues);
+  }
+  manifest.frames = frames as RawFrame[];
+  return manifest;
+};
+
+// Serializes a manifest for a test package, keeping the bare array form when
+// no top-level sections are used so older players can still read it.
+export const serializeManifest = (manifest: Manifest): string => {
+  const { frames, ...sections } = manifest;
+  const hasSections = Object.values(sections).some(value => value !== undefined);
+  return JSON.stringify(hasSections ? manifest : frames, null, 2);
+};
+
+/**
+ * Checks that every box of an already validated frame lies within the image.
+ * Requires the decoded image dimensions, so it runs after the image is loaded.
+ */
+export const validateFrameBounds = (
+  frame: RawFrame,
+  frameIndex: number,
+  imageWidth: number,
+  imageHeight: number
+): ManifestIssue[] => {
+  const issues: ManifestIssue[] = [];
+  const collector = new IssueCollector(issues, frameIndex);
+  const check = (box: Rect, path: string) => {
+    if (box.x + box.w > imageWidth) {
+      collector.add(`${path}.x + ${path}.w`, `<= image width ${imageWidth}`, `${box.x + box.w}`);
+    }
+    if (box.y + box.h > imageHeight) {
+      collector.add(`${path}.y + ${path}.h`, `<= image height ${imageHeight}`, `${box.y + box.h}`);
+    }
+  };
+  frame.hotspots.forEach((h, i) => check(h, `hotspots[${i}]`));
+  frame.inputs.forEach((input, i) => check(input, `inputs[${i}]`));
+  frame.selects?.forEach((select, i) => check(select, `selects[${i}]`));
+  frame.checkboxes?.forEach((checkbox, i) => check(checkbox, `checkboxes[${i}]`));
+  frame.drags?.forEach((drag, i) => {
+    check(drag, `drags[${i}]`);
+    check(drag.to, `drags[${i}].to`);
+  });
+  return issues;
+};
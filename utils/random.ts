@@ -0,0 +1,41 @@
+// Seeded randomness, so an attempt's random choices can be made again from its seed.
+
+// A new seed: 32 random bits as 8 hex digits.
+export const createSeed = (): string => {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return value.toString(16).padStart(8, '0');
+};
+
+// Mixes a seed string into 32 bits (FNV-1a), so seeds of any form can be used.
+const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * A pseudo-random generator (mulberry32) returning numbers in [0, 1) like
+ * Math.random. The same seed always gives the same sequence.
+ */
+export const createRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A shuffled copy of `items` (Fisher-Yates).
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { BoxType } from '../types';
+import { reportToCsv, ResultsReport } from './resultsReport';
+
+const report = (given: string): ResultsReport => ({
+  email: 'candidate@example.com',
+  testUrl: null,
+  testTitle: null,
+  testVersion: null,
+  generatedAt: '2024-10-01T10:00:00.000Z',
+  practice: false,
+  seed: null,
+  hintsUsed: 0,
+  totalTimeSeconds: 30,
+  score: -1,
+  totalPossible: 1,
+  totalPenalty: 1,
+  passingThreshold: null,
+  passed: null,
+  integrity: null,
+  frames: [{
+    frameId: 'f1',
+    frameNumber: 1,
+    image: 'one.png',
+    earned: 0,
+    possible: 1,
+    penalty: 1,
+    timeSpentSeconds: 30,
+    timedOut: false,
+    hotspotMistakes: 0,
+    backgroundMistakes: [],
+    boxes: [{ boxId: 'city', type: BoxType.INPUT, label: 'City', outcome: 'incorrect', given, expected: '"Paris"', earned: 0, possible: 1 }],
+  }],
+});
+
+const answerCell = (csv: string) => csv.split('\r\n')[2].split(',')[6];
+
+describe('reportToCsv', () => {
+  it.each(['=HYPERLINK("http://example.com","x")', '+cmd|x', '-2+3', '@SUM(A1)', '\tx', '\rx'])('keeps %j from running as a formula', given => {
+    expect(answerCell(reportToCsv(report(given))).replace(/^"/, '')).toMatch(/^'/);
+  });
+
+  it('quotes values with commas, quotes and line breaks', () => {
+    expect(reportToCsv(report('Paris, "France"'))).toContain('"Paris, ""France"""');
+  });
+
+  it('leaves ordinary answers and negative numbers as they are', () => {
+    const csv = reportToCsv(report('Paris'));
+    expect(answerCell(csv)).toBe('Paris');
+    expect(csv.split('\r\n').at(-1)).toContain(',-1,1,');
+  });
+});
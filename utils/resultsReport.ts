@@ -0,0 +1,154 @@
+import { BackgroundMistake, BoxType, FrameData, InputBox, IntegritySummary, TestMetadata, UserAnswer } from '../types';
+import { describeExpectedAnswer } from './answerMatching';
+import { getVerdict, ScoreResult } from './scoring';
+
+export interface BoxOutcome {
+  boxId: string;
+  type: BoxType;
+  label: string;
+  outcome: 'clicked' | 'completed' | 'missed' | 'correct' | 'incorrect';
+  given?: string; // Answer boxes (inputs, selects, checkboxes) only
+  expected?: string; // Answer boxes and shortcuts only
+  earned: number;
+  possible: number;
+}
+
+export interface FrameOutcome {
+  frameId: string;
+  frameNumber: number;
+  image: string;
+  earned: number;
+  possible: number;
+  penalty: number;
+  timeSpentSeconds: number;
+  timedOut: boolean;
+  hotspotMistakes: number;
+  backgroundMistakes: BackgroundMistake[];
+  boxes: BoxOutcome[];
+}
+
+export interface ResultsReport {
+  email: string;
+  testUrl: string | null;
+  testTitle: string | null;
+  testVersion: string | null;
+  generatedAt: string;
+  practice: boolean;
+  seed: string | null; // Reproduces the frames served by a test with sections
+  hintsUsed: number;
+  totalTimeSeconds: number;
+  score: number;
+  totalPossible: number;
+  totalPenalty: number;
+  passingThreshold: number | null; // Points needed to pass, null when the test has no passing score
+  passed: boolean | null;
+  integrity: IntegritySummary | null; // Only for monitored attempts
+  frames: FrameOutcome[];
+}
+
+const describeChecked = (checked: boolean) => (checked ? 'checked' : 'unchecked');
+
+export const buildResultsReport = (params: {
+  frames: FrameData[];
+  scoreResult: ScoreResult;
+  userAnswers: Record<string, UserAnswer>;
+  backgroundMistakes: Record<string, BackgroundMistake[]>;
+  elapsedTime: number;
+  frameTimeSpent?: Record<string, number>;
+  email: string;
+  testUrl?: string | null;
+  metadata?: TestMetadata;
+  seed?: string;
+  practice?: boolean;
+  hintsUsed?: Record<string, number>;
+  integrity?: IntegritySummary;
+}): ResultsReport => {
+  const { frames, scoreResult, userAnswers, backgroundMistakes, elapsedTime, frameTimeSpent = {}, email, testUrl, metadata = {}, seed, practice = false, hintsUsed = {}, integrity } = params;
+  const verdict = getVerdict(scoreResult.score, scoreResult.totalPossible, metadata.passingScore);
+  return {
+    email,
+    testUrl: testUrl ?? null,
+    testTitle: metadata.title ?? null,
+    testVersion: metadata.version ?? null,
+    generatedAt: new Date().toISOString(),
+    practice,
+    seed: seed ?? null,
+    hintsUsed: Object.values(hintsUsed).reduce((sum, count) => sum + count, 0),
+    totalTimeSeconds: elapsedTime,
+    score: scoreResult.score,
+    totalPossible: scoreResult.totalPossible,
+    totalPenalty: scoreResult.totalPenalty,
+    passingThreshold: verdict?.threshold ?? null,
+    passed: verdict?.passed ?? null,
+    integrity: integrity ?? null,
+    // Frames left out of scoring (off the path of a branching test) are left out of the report too.
+    frames: frames.flatMap((frame, index): FrameOutcome[] => {
+      const frameScore = scoreResult.frames.find(f => f.frameId === frame.id);
+      if (!frameScore) return [];
+      return [{
+        frameId: frame.id,
+        frameNumber: index + 1,
+        image: frame.imageFileName,
+        earned: frameScore.earned,
+        possible: frameScore.possible,
+        penalty: frameScore.penalty,
+        timeSpentSeconds: frameTimeSpent[frame.id] ?? 0,
+        timedOut: frameScore.timedOut,
+        hotspotMistakes: frameScore.hotspotMistakes,
+        backgroundMistakes: (backgroundMistakes[frame.id] || []).map(({ x, y }) => ({ x: Math.round(x), y: Math.round(y) })),
+        boxes: frame.boxes.flatMap((box): BoxOutcome[] => {
+          const boxScore = frameScore.boxes.find(b => b.boxId === box.id);
+          if (!boxScore) return [];
+          const correct = boxScore.correct;
+          const base = { boxId: box.id, type: box.type, label: box.label, earned: boxScore.earned, possible: boxScore.possible };
+          const answer = userAnswers[frame.id];
+          const outcome = correct ? 'correct' : 'incorrect';
+          switch (box.type) {
+            case BoxType.INPUT:
+              return [{ ...base, outcome, given: answer?.inputs[box.id] ?? '', expected: describeExpectedAnswer(box as InputBox) }];
+            case BoxType.SELECT:
+              return [{ ...base, outcome, given: answer?.inputs[box.id] ?? '', expected: box.expected }];
+            case BoxType.CHECKBOX:
+              return [{ ...base, outcome, given: describeChecked(answer?.checked?.[box.id] ?? false), expected: describeChecked(box.expected) }];
+            case BoxType.SHORTCUT:
+              return [{ ...base, outcome: correct ? 'completed' : 'missed', expected: box.keys }];
+            case BoxType.DRAG:
+              return [{ ...base, outcome: correct ? 'completed' : 'missed' }];
+            default:
+              return [{ ...base, outcome: correct ? 'clicked' : 'missed' }];
+          }
+        }),
+      }];
+    }),
+  };
+};
+
+const CSV_COLUMNS = ['email', 'frame', 'image', 'kind', 'label', 'outcome', 'given', 'expected', 'earned', 'possible', 'x', 'y', 'seconds'];
+
+// Spreadsheets run cells starting with these as formulas, so a typed answer such as =HYPERLINK(...) would run when the CSV is opened.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Flattens a report into CSV with a row per frame, one per box and one per
+ * background click, followed by a summary row, so it can be pasted into a grading sheet.
+ */
+export const reportToCsv = (report: ResultsReport): string => {
+  const rows: (string | number | undefined)[][] = [CSV_COLUMNS];
+  report.frames.forEach(frame => {
+    rows.push([report.email, frame.frameNumber, frame.image, 'frame', '', frame.timedOut ? 'timed out' : 'completed', undefined, undefined, frame.earned, frame.possible, undefined, undefined, frame.timeSpentSeconds]);
+    frame.boxes.forEach(box => {
+      rows.push([report.email, frame.frameNumber, frame.image, box.type.toLowerCase(), box.label, box.outcome, box.given, box.expected, box.earned, box.possible]);
+    });
+    frame.backgroundMistakes.forEach(mistake => {
+      rows.push([report.email, frame.frameNumber, frame.image, 'background', '', 'mistake', undefined, undefined, undefined, undefined, mistake.x, mistake.y]);
+    });
+  });
+  rows.push([report.email, '', '', 'total', '', `penalty ${report.totalPenalty}`, undefined, undefined, report.score, report.totalPossible, undefined, undefined, report.totalTimeSeconds]);
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n');
+};
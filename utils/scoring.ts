@@ -0,0 +1,157 @@
+import { AttemptRecord, BoxType, FrameBox, HotspotBox, InputBox, MistakeKind, PassingScore, ScoringPolicy } from '../types';
+import { isAnswerCorrect } from './answerMatching';
+
+// The parts of a frame that scoring needs; `FrameData` satisfies this.
+export interface ScorableFrame {
+  id: string;
+  boxes: FrameBox[];
+}
+
+export interface BoxScore {
+  boxId: string;
+  label: string;
+  type: BoxType;
+  correct: boolean;
+  earned: number;
+  possible: number;
+}
+
+export interface FrameScore {
+  frameId: string;
+  earned: number;
+  possible: number;
+  penalty: number;
+  timedOut: boolean;
+  hotspotMistakes: number;
+  backgroundMistakes: number;
+  boxes: BoxScore[];
+}
+
+export interface ScoreResult {
+  score: number;
+  totalPossible: number;
+  totalPenalty: number;
+  frames: FrameScore[];
+}
+
+const DEFAULT_POLICY: Required<Omit<ScoringPolicy, 'maxPenaltyPerFrame'>> = {
+  hotspotPenalty: 1,
+  backgroundPenalty: 1,
+  escalatePenalties: false,
+  sequenceCredit: 'perStep',
+};
+
+const boxPoints = (box: FrameBox) => box.points ?? 1;
+
+// Adds up the penalty for a frame's mistakes, in the order they happened.
+const framePenalty = (mistakes: MistakeKind[], policy: ScoringPolicy): number => {
+  const hotspotPenalty = policy.hotspotPenalty ?? DEFAULT_POLICY.hotspotPenalty;
+  const backgroundPenalty = policy.backgroundPenalty ?? DEFAULT_POLICY.backgroundPenalty;
+  let penalty = 0;
+  let counted = 0;
+  mistakes.forEach(kind => {
+    const base = kind === 'hotspot' ? hotspotPenalty : backgroundPenalty;
+    if (base === 0) return;
+    counted++;
+    penalty += policy.escalatePenalties ? base * counted : base;
+  });
+  if (policy.maxPenaltyPerFrame !== undefined) {
+    penalty = Math.min(penalty, policy.maxPenaltyPerFrame);
+  }
+  return penalty;
+};
+
+/**
+ * Scores an attempt under a scoring policy and returns a per-frame breakdown.
+ * Boxes on frames that ran out of time count as missed. In branching tests
+ * only the frames on the attempt's path are scored, hotspots that lead to
+ * different frames are alternatives worth one route's points, and `mistake`
+ * hotspots are distractors that only ever cost points. Frame scores may go
+ * negative; only the overall score is floored at zero.
+ */
+export const scoreAttempt = (
+  frames: ScorableFrame[],
+  attempt: AttemptRecord,
+  policy: ScoringPolicy = {}
+): ScoreResult => {
+  const { answers, mistakes, timedOutFrames = {}, path } = attempt;
+  const sequenceCredit = policy.sequenceCredit ?? DEFAULT_POLICY.sequenceCredit;
+  const scoredFrames = path ? frames.filter(frame => path.includes(frame.id)) : frames;
+
+  const frameScores = scoredFrames.map((frame): FrameScore => {
+    const frameAnswers = answers[frame.id];
+    const frameMistakes = mistakes[frame.id] ?? [];
+    const timedOut = !!timedOutFrames[frame.id];
+
+    const ordered = frame.boxes.filter((b): b is HotspotBox => b.type === BoxType.HOTSPOT && typeof b.order === 'number');
+    const sequenceComplete = ordered.every(box => frameAnswers?.hotspotsClicked[box.id]);
+
+    // Of several routes out of a frame, the one taken counts, or else the most valuable.
+    const routes = frame.boxes.filter((b): b is HotspotBox => b.type === BoxType.HOTSPOT && !b.mistake && b.target !== undefined);
+    const countedRoute = routes.find(box => frameAnswers?.hotspotsClicked[box.id])
+      ?? routes.reduce<HotspotBox | undefined>((best, box) => (!best || boxPoints(box) > boxPoints(best) ? box : best), undefined);
+
+    const scoredBoxes = frame.boxes.filter(box => box.type !== BoxType.HOTSPOT || !box.mistake);
+    const boxes = scoredBoxes.map((box): BoxScore => {
+      let correct = false;
+      if (box.type === BoxType.INPUT) {
+        correct = isAnswerCorrect(box as InputBox, frameAnswers?.inputs[box.id] ?? '');
+      } else if (box.type === BoxType.HOTSPOT) {
+        // Score is based on correctly clicked hotspots, regardless of subsequent mistakes on the frame.
+        correct = !!frameAnswers?.hotspotsClicked[box.id];
+      } else if (box.type === BoxType.SELECT) {
+        correct = frameAnswers?.inputs[box.id] === box.expected;
+      } else if (box.type === BoxType.CHECKBOX) {
+        correct = (frameAnswers?.checked?.[box.id] ?? false) === box.expected;
+      } else {
+        correct = !!frameAnswers?.completed?.[box.id];
+      }
+      correct = correct && !timedOut;
+      const possible = routes.includes(box as HotspotBox) && box !== countedRoute ? 0 : boxPoints(box);
+      let earned = correct ? possible : 0;
+      if (sequenceCredit === 'allOrNothing' && ordered.length > 1 && ordered.includes(box as HotspotBox) && !sequenceComplete) {
+        earned = 0;
+      }
+      return { boxId: box.id, label: box.label, type: box.type, correct, earned, possible };
+    });
+
+    const earned = boxes.reduce((sum, b) => sum + b.earned, 0);
+    const possible = boxes.reduce((sum, b) => sum + b.possible, 0);
+    return {
+      frameId: frame.id,
+      earned,
+      possible,
+      penalty: framePenalty(frameMistakes, policy),
+      timedOut,
+      hotspotMistakes: frameMistakes.filter(kind => kind === 'hotspot').length,
+      backgroundMistakes: frameMistakes.filter(kind => kind === 'background').length,
+      boxes,
+    };
+  });
+
+  const totalEarned = frameScores.reduce((sum, f) => sum + f.earned, 0);
+  const totalPenalty = frameScores.reduce((sum, f) => sum + f.penalty, 0);
+  return {
+    score: Math.max(0, totalEarned - totalPenalty),
+    totalPossible: frameScores.reduce((sum, f) => sum + f.possible, 0),
+    totalPenalty,
+    frames: frameScores,
+  };
+};
+
+export interface Verdict {
+  passed: boolean;
+  threshold: number; // Points needed to pass this attempt
+}
+
+// The points needed to pass: `passingScore` itself, or its percentage of the attempt's total possible score.
+export const getPassingThreshold = (passingScore: PassingScore, totalPossible: number): number =>
+  typeof passingScore === 'number' ? passingScore : (totalPossible * parseFloat(passingScore)) / 100;
+
+// Whether a score passes, or null when the test has no passing score.
+export const getVerdict = (score: number, totalPossible: number, passingScore: PassingScore | undefined): Verdict | null => {
+  if (passingScore === undefined) return null;
+  const threshold = getPassingThreshold(passingScore, totalPossible);
+  // Percentages of fractional point totals are compared with a little tolerance for rounding.
+  return { passed: score >= threshold - 1e-9, threshold };
+};
@@ -0,0 +1,146 @@
+import { SessionEvent, SessionLog } from '../types';
+import { Point } from './geometry';
+
+// An event as reported by a component, before the player stamps it with the time and frame.
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+export type SessionEventPayload = DistributiveOmit<SessionEvent, 'time' | 'frameId'>;
+
+// Pointer moves are sampled at most this often to keep logs small.
+export const POINTER_SAMPLE_INTERVAL_MS = 100;
+
+// How far back the replay cursor trail reaches.
+const TRAIL_DURATION_MS = 1500;
+
+// Idle periods longer than this (e.g. between an interruption and a resume) are shortened in replays.
+const MAX_REPLAY_GAP_MS = 5000;
+
+export const buildSessionLog = (
+  events: SessionEvent[],
+  meta: { testId: string | null, testUrl: string | null, email: string, seed?: string, frameIds?: string[] }
+): SessionLog => ({ version: 1, ...meta, events });
+
+export const parseSessionLog = (text: string): SessionLog => {
+  const parsed = JSON.parse(text);
+  if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.events)) {
+    throw new Error('This file is not a session log exported by the test player.');
+  }
+  const events = parsed.events.filter((e: any) =>
+    e && typeof e.type === 'string' && typeof e.time === 'number' && typeof e.frameId === 'string'
+  );
+  return { ...parsed, events: [...events].sort((a: SessionEvent, b: SessionEvent) => a.time - b.time) };
+};
+
+export const compressIdleGaps = (events: SessionEvent[]): SessionEvent[] => {
+  let shift = 0;
+  return events.map((event, index) => {
+    if (index > 0) {
+      const gap = event.time - events[index - 1].time;
+      if (gap > MAX_REPLAY_GAP_MS) shift += gap - MAX_REPLAY_GAP_MS;
+    }
+    return shift === 0 ? event : { ...event, time: event.time - shift };
+  });
+};
+
+export interface ReplayClick extends Point {
+  correct: boolean;
+}
+
+export interface ReplayState {
+  frameId: string | null;
+  cursor: Point | null;
+  trail: Point[];
+  clicks: ReplayClick[];
+  inputs: Record<string, string>;
+  lastEvent: SessionEvent | null;
+}
+
+/**
+ * Reconstructs what the candidate saw at `offsetMs` after the first event:
+ * the current frame, cursor position and recent trail, the clicks made on
+ * the frame so far and the input values typed.
+ */
+export const getReplayState = (events: SessionEvent[], offsetMs: number): ReplayState => {
+  const state: ReplayState = { frameId: null, cursor: null, trail: [], clicks: [], inputs: {}, lastEvent: null };
+  if (events.length === 0) return state;
+  const cutoff = events[0].time + offsetMs;
+  const trail: { time: number, point: Point }[] = [];
+
+  for (const event of events) {
+    if (event.time > cutoff) break;
+    state.lastEvent = event;
+    if (event.frameId !== state.frameId && event.type !== 'frame-leave' && event.type !== 'navigate') {
+      // A new frame starts with a clean overlay.
+      state.frameId = event.frameId;
+      state.clicks = [];
+      trail.length = 0;
+    }
+    switch (event.type) {
+      case 'pointer-move':
+        state.cursor = { x: event.x, y: event.y };
+        trail.push({ time: event.time, point: state.cursor });
+        break;
+      case 'hotspot-click':
+        if (event.x !== undefined && event.y !== undefined) {
+          state.cursor = { x: event.x, y: event.y };
+          state.clicks.push({ x: event.x, y: event.y, correct: event.correct });
+        }
+        break;
+      case 'background-click':
+        state.cursor = { x: event.x, y: event.y };
+        state.clicks.push({ x: event.x, y: event.y, correct: false });
+        break;
+      case 'drag-end':
+        state.cursor = { x: event.x, y: event.y };
+        state.clicks.push({ x: event.x, y: event.y, correct: event.correct });
+        break;
+      case 'frame-retry':
+        state.clicks = [];
+        state.inputs = {};
+        break;
+      case 'input-change':
+      case 'input-blur':
+        state.inputs[event.boxId] = event.value;
+        break;
+    }
+  }
+
+  state.trail = trail.filter(entry => entry.time >= cutoff - TRAIL_DURATION_MS).map(entry => entry.point);
+  return state;
+};
+
+const describeIntegrityEvent = (event: Extract<SessionEvent, { type: 'integrity' }>): string => {
+  switch (event.kind) {
+    case 'hidden': return 'Hid the test page';
+    case 'visible': return 'Showed the test page again';
+    case 'blur': return 'Switched away from the test';
+    case 'focus': return 'Returned to the test';
+    case 'fullscreen-exit': return 'Left fullscreen';
+    case 'fullscreen-enter': return 'Entered fullscreen';
+    case 'paste': return `Pasted ${event.length ?? 0} characters`;
+    case 'resize': return `Resized the window to ${event.width}×${event.height}`;
+    case 'blocked': return 'Test blocked for integrity violations';
+    case 'unblocked': return 'Returned to the blocked test';
+  }
+};
+
+export const describeSessionEvent = (event: SessionEvent): string => {
+  switch (event.type) {
+    case 'test-start': return 'Test started';
+    case 'test-submit': return 'Test submitted';
+    case 'frame-enter': return 'Entered frame';
+    case 'frame-leave': return 'Left frame';
+    case 'navigate': return `Navigated ${event.direction}`;
+    case 'pointer-move': return 'Moved pointer';
+    case 'hotspot-click': return event.correct ? 'Clicked hotspot (correct)' : 'Clicked hotspot (wrong)';
+    case 'background-click': return 'Clicked background';
+    case 'input-change': return `Typed "${event.value}"`;
+    case 'input-blur': return `Left input with "${event.value}"`;
+    case 'time-expired': return event.scope === 'test' ? 'Test time ran out' : 'Frame time ran out';
+    case 'checkbox-change': return event.checked ? 'Checked a box' : 'Unchecked a box';
+    case 'drag-end': return event.correct ? 'Dropped on target' : 'Dropped off target';
+    case 'shortcut': return event.boxId ? `Pressed ${event.keys}` : `Pressed ${event.keys} (wrong)`;
+    case 'hint-shown': return 'Showed a hint';
+    case 'frame-retry': return 'Retried the frame';
+    case 'integrity': return describeIntegrityEvent(event);
+  }
+};
@@ -0,0 +1,61 @@
+// Keyboard shortcuts are compared in a canonical lower-case form such as
+// "ctrl+shift+s": modifiers in a fixed order followed by exactly one key.
+
+const MODIFIERS = ['ctrl', 'alt', 'shift', 'meta'];
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  ctrl: 'ctrl', control: 'ctrl',
+  alt: 'alt', option: 'alt',
+  shift: 'shift',
+  meta: 'meta', cmd: 'meta', command: 'meta', win: 'meta',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  ' ': 'space', spacebar: 'space',
+  esc: 'escape',
+  del: 'delete',
+  return: 'enter',
+  up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright',
+};
+
+const canonicalKey = (key: string) => KEY_ALIASES[key] ?? key;
+
+const formatShortcut = (modifiers: Set<string>, key: string) =>
+  [...MODIFIERS.filter(m => modifiers.has(m)), key].join('+');
+
+// Parses a shortcut as written in a manifest, e.g. "Ctrl+Shift+S" or "Cmd+Enter". Returns null if it does not name exactly one key.
+export const normalizeShortcut = (keys: string): string | null => {
+  const parts = keys.toLowerCase().split('+').map(part => part.trim());
+  const modifiers = new Set<string>();
+  let key: string | null = null;
+  for (const part of parts) {
+    if (part === '') return null;
+    if (MODIFIER_ALIASES[part]) {
+      modifiers.add(MODIFIER_ALIASES[part]);
+    } else if (key === null) {
+      key = canonicalKey(part);
+    } else {
+      return null;
+    }
+  }
+  return key === null ? null : formatShortcut(modifiers, key);
+};
+
+// The shortcut a key press forms, or null for a lone modifier. Letters and
+// digits are read from the physical key so Shift+1 stays "shift+1", not "!".
+export const shortcutFromEvent = (event: KeyboardEvent): string | null => {
+  const lowered = event.key.toLowerCase();
+  if (['control', 'alt', 'shift', 'meta', 'os'].includes(lowered)) return null;
+  const physical = /^Key([A-Z])$/.exec(event.code) ?? /^Digit(\d)$/.exec(event.code);
+  const key = physical ? physical[1].toLowerCase() : canonicalKey(lowered);
+  const modifiers = new Set<string>();
+  if (event.ctrlKey) modifiers.add('ctrl');
+  if (event.altKey) modifiers.add('alt');
+  if (event.shiftKey) modifiers.add('shift');
+  if (event.metaKey) modifiers.add('meta');
+  return formatShortcut(modifiers, key);
+};
+
+// Whether a key press looks like an attempted shortcut rather than typing.
+export const isShortcutAttempt = (event: KeyboardEvent): boolean =>
+  event.ctrlKey || event.altKey || event.metaKey || /^F\d+$/.test(event.key) || event.key === 'Escape';
@@ -0,0 +1,93 @@
+// Reads the files out of a tar archive (optionally gzipped) without unpacking
+// it: each file is a slice of the archive.
+
+export interface TarEntry {
+  path: string;
+  blob: Blob;
+}
+
+const BLOCK_SIZE = 512;
+
+const decoder = new TextDecoder();
+
+// Header fields are NUL-terminated unless they fill their whole width.
+const readString = (block: Uint8Array, start: number, length: number) => {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+// Sizes are octal text, or big-endian binary flagged by the high bit for files over 8 GB.
+const readSize = (block: Uint8Array): number => {
+  if (block[124] & 0x80) {
+    return block.subarray(125, 136).reduce((size, byte) => size * 256 + byte, block[124] & 0x7f);
+  }
+  return parseInt(readString(block, 124, 12).trim() || '0', 8);
+};
+
+const isZeroBlock = (block: Uint8Array) => block.every(byte => byte === 0);
+
+// A pax extended header holds "<length> <key>=<value>\n" records.
+const readPaxPath = (data: Uint8Array): string | null => {
+  let path: string | null = null;
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(decoder.decode(data.subarray(offset, space)), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+    if (record.startsWith('path=')) path = record.slice('path='.length);
+    offset += length;
+  }
+  return path;
+};
+
+// Whether a file starts with a tar header, going by the ustar magic that GNU and POSIX tar both write.
+export const isTarHeader = (header: Uint8Array): boolean =>
+  header.length >= 263 && readString(header, 257, 5) === 'ustar';
+
+// Decompresses a gzip file in the browser.
+export const gunzip = (file: Blob): Promise<Blob> =>
+  new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).blob();
+
+/**
+ * Lists the regular files of a tar archive. Long paths are read from the ustar
+ * prefix field, GNU long-name entries and pax headers; links, directories and
+ * other special entries are left out.
+ */
+export const readTar = async (archive: Blob): Promise<TarEntry[]> => {
+  const entries: TarEntry[] = [];
+  let longPath: string | null = null;
+  let offset = 0;
+  while (offset + BLOCK_SIZE <= archive.size) {
+    const header = new Uint8Array(await archive.slice(offset, offset + BLOCK_SIZE).arrayBuffer());
+    if (isZeroBlock(header)) break;
+    if (!isTarHeader(header)) {
+      throw new Error(`The tar archive is damaged: no valid header at byte ${offset}.`);
+    }
+
+    const size = readSize(header);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = archive.slice(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    const type = String.fromCharCode(header[156]);
+    if (type === 'L') {
+      longPath = readString(new Uint8Array(await data.arrayBuffer()), 0, size);
+      continue;
+    }
+    if (type === 'x') {
+      longPath = readPaxPath(new Uint8Array(await data.arrayBuffer())) ?? longPath;
+      continue;
+    }
+
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const path = longPath ?? (prefix ? `${prefix}/${name}` : name);
+    longPath = null;
+    if (type === '0' || type === '\0' || type === '7') {
+      entries.push({ path: path.replace(/^\.\//, ''), blob: data });
+    }
+  }
+  return entries;
+};
@@ -0,0 +1,246 @@
+import { BoxType, Frame as RawFrame, FrameBox, FrameData, HotspotBox, ManifestIssue, Section, UserAnswer } from '../types';
+import { createRandom, shuffle } from './random';
+
+// Stands for "the test ends here" in the flow graph.
+const END = -1;
+
+// The ID a manifest frame gets in the player. Positional IDs keep saved attempts
+// valid across loads of the same test; manifest IDs let the author name frames.
+export const frameIdAt = (frame: RawFrame, index: number): string => frame.id ?? `frame-${index}`;
+
+// Finds the frame a `target`/`next` reference names, preferring IDs over image names. Returns -1 if none matches.
+export const resolveFrameRef = (frames: RawFrame[], ref: string): number => {
+  const byId = frames.findIndex(frame => frame.id === ref);
+  return byId !== -1 ? byId : frames.findIndex(frame => frame.image === ref);
+};
+
+// Turns a validated `target`/`next` reference into the ID of the frame it names, keeping null and undefined as they are.
+export const resolveFrameId = <T extends string | null | undefined>(frames: RawFrame[], ref: T): string | Exclude<T, string> => {
+  if (typeof ref !== 'string') return ref as Exclude<T, string>;
+  const index = resolveFrameRef(frames, ref);
+  return frameIdAt(frames[index], index);
+};
+
+// A frame as the player runs it, short of its image size, which only the player measures.
+export type FrameContent = Omit<FrameData, 'originalWidth' | 'originalHeight'>;
+
+/**
+ * Turns a validated manifest frame into the form the player runs: frame
+ * references resolved to IDs, and every box given an ID from its kind and
+ * position, so the IDs are the same wherever the test is loaded.
+ */
+export const buildFrameContent = (frames: RawFrame[], frameIndex: number): FrameContent => {
+  const frame = frames[frameIndex];
+  // IDs stay the same across loads of the same test, which lets saved attempts refer to them.
+  const frameId = frameIdAt(frame, frameIndex);
+  const boxes: FrameBox[] = [];
+  frame.hotspots.forEach((h, i) => {
+    boxes.push({ ...h, target: resolveFrameId(frames, h.target), id: `${frameId}-hotspot-${i}`, type: BoxType.HOTSPOT });
+  });
+  frame.inputs.forEach((input, i) => {
+    boxes.push({ ...input, id: `${frameId}-input-${i}`, type: BoxType.INPUT });
+  });
+  frame.selects?.forEach((select, i) => {
+    boxes.push({ ...select, id: `${frameId}-select-${i}`, type: BoxType.SELECT });
+  });
+  frame.checkboxes?.forEach((checkbox, i) => {
+    boxes.push({ ...checkbox, id: `${frameId}-checkbox-${i}`, type: BoxType.CHECKBOX });
+  });
+  frame.drags?.forEach((drag, i) => {
+    boxes.push({ ...drag, id: `${frameId}-drag-${i}`, type: BoxType.DRAG });
+  });
+  frame.shortcuts?.forEach((shortcut, i) => {
+    boxes.push({ ...shortcut, id: `${frameId}-shortcut-${i}`, type: BoxType.SHORTCUT });
+  });
+  return {
+    id: frameId,
+    imageFileName: frame.image,
+    timeLimitSeconds: frame.timeLimitSeconds,
+    next: resolveFrameId(frames, frame.next),
+    advance: typeof frame.advance === 'object' ? { hotspotId: `${frameId}-hotspot-${frame.advance.hotspot}` } : frame.advance,
+    boxes,
+  };
+};
+
+// Sections with their frame references resolved to frame IDs, as `selectFrames` expects them.
+export const resolveSections = (frames: RawFrame[], sections: Section[] | undefined): Section[] | undefined =>
+  sections?.map(section => ({ ...section, frames: section.frames.map(ref => resolveFrameId(frames, ref)) }));
+
+/**
+ * The frames one attempt serves. Without sections that is every frame in
+ * order. With them it is each section in turn, drawing from and shuffling its
+ * frames as the section says with a generator seeded by `seed`, so the same
+ * seed always serves the same frames in the same order.
+ */
+export const selectFrames = <T extends FrameContent>(frames: T[], sections: Section[] | undefined, seed: string): T[] => {
+  if (!sections) return frames;
+  const random = createRandom(seed);
+  return sections.flatMap(section => {
+    const members = section.frames.flatMap(id => frames.filter(frame => frame.id === id));
+    let served = members;
+    if (section.draw !== undefined && section.draw < members.length) {
+      const drawn = new Set(shuffle(members, random).slice(0, section.draw));
+      served = members.filter(frame => drawn.has(frame));
+    }
+    return section.shuffle ? shuffle(served, random) : served;
+  });
+};
+
+// A test branches when any frame or hotspot says where it leads instead of
+// falling through to the following frame.
+export const isBranchingFlow = (frames: FrameContent[]): boolean =>
+  frames.some(frame => frame.next !== undefined || frame.boxes.some(box => box.type === BoxType.HOTSPOT && box.target !== undefined));
+
+/**
+ * Where the player goes after leaving a frame: the clicked hotspot's target if
+ * it has one, else the frame's `next`, else the following frame. `null` means
+ * the test is over.
+ */
+export const getNextFrameId = (frames: FrameData[], index: number, via?: HotspotBox): string | null => {
+  if (via?.target !== undefined) return via.target;
+  const { next } = frames[index];
+  if (next !== undefined) return next;
+  return frames[index + 1]?.id ?? null;
+};
+
+const scoredHotspots = (frame: FrameData) =>
+  frame.boxes.filter((b): b is HotspotBox => b.type === BoxType.HOTSPOT && !b.mistake);
+
+// Selects and checkboxes have no natural "done" moment, so they never hold a frame back.
+const isCompletionTask = (box: FrameBox) =>
+  (box.type === BoxType.HOTSPOT && !box.mistake) || box.type === BoxType.INPUT || box.type === BoxType.DRAG || box.type === BoxType.SHORTCUT;
+
+// Frames without such tasks cannot finish on their own and need a Continue button.
+export const hasCompletionTasks = (frame: FrameData): boolean => frame.boxes.some(isCompletionTask);
+
+/**
+ * Whether the candidate has done everything a frame with the 'auto' advance
+ * rule waits for: a hotspot clicked (the whole sequence, when hotspots are
+ * ordered), every input filled and every drag and shortcut done.
+ */
+export const isFrameComplete = (frame: FrameData, answer: UserAnswer | undefined): boolean => {
+  if (!hasCompletionTasks(frame)) return false;
+  const hotspots = scoredHotspots(frame);
+  const ordered = hotspots.filter(box => typeof box.order === 'number');
+  const hotspotsDone = hotspots.length === 0 || (ordered.length > 1
+    ? ordered.every(box => answer?.hotspotsClicked[box.id])
+    : hotspots.some(box => answer?.hotspotsClicked[box.id]));
+  return hotspotsDone && frame.boxes.every(box => {
+    if (box.type === BoxType.INPUT) return !!answer?.inputs[box.id]?.trim();
+    if (box.type === BoxType.DRAG || box.type === BoxType.SHORTCUT) return !!answer?.completed?.[box.id];
+    return true;
+  });
+};
+
+// The clicked hotspot whose target decides where the frame leads when it is
+// finished by something other than a click. In a sequence only the last step counts.
+export const getRouteTaken = (frame: FrameData, answer: UserAnswer | undefined): HotspotBox | undefined => {
+  const hotspots = scoredHotspots(frame);
+  const ordered = hotspots.filter(box => typeof box.order === 'number');
+  const candidates = ordered.length > 1
+    ? [ordered.reduce((last, box) => ((box.order as number) > (last.order as number) ? box : last))]
+    : hotspots;
+  return candidates.find(box => box.target !== undefined && answer?.hotspotsClicked[box.id]);
+};
+
+const resolveOrEnd = (frames: RawFrame[], ref: string | null) => (ref === null ? END : resolveFrameRef(frames, ref));
+
+// Every frame (or END) a frame can lead to. Ordered hotspots only lead anywhere
+// once the sequence is complete, so only the last one's target counts; a frame
+// finished by a given hotspot only leaves through that one.
+const getSuccessors = (frames: RawFrame[], index: number): number[] => {
+  const frame = frames[index];
+  const successors = new Set<number>();
+  const ordered = frame.hotspots.filter(h => typeof h.order === 'number');
+  const isSequential = ordered.length > 1;
+  const lastOrder = Math.max(0, ...ordered.map(h => h.order as number));
+  const advanceHotspot = typeof frame.advance === 'object' ? frame.hotspots[frame.advance.hotspot] : undefined;
+
+  // Input-only frames, empty frames, frames finished by Enter or Continue
+  // (possibly before any hotspot is clicked) and frames that can time out use the fallthrough.
+  let usesFallthrough = frame.timeLimitSeconds !== undefined
+    || frame.advance === 'enter' || frame.advance === 'continue'
+    || frame.hotspots.every(h => h.mistake);
+  frame.hotspots.forEach(hotspot => {
+    const leavesFrame = hotspot.mistake || (advanceHotspot ? hotspot === advanceHotspot : !isSequential || hotspot.order === lastOrder);
+    if (!leavesFrame) return;
+    if (hotspot.target !== undefined) {
+      successors.add(resolveOrEnd(frames, hotspot.target));
+    } else if (!hotspot.mistake) {
+      usesFallthrough = true;
+    }
+  });
+  if (usesFallthrough) {
+    successors.add(frame.next !== undefined ? resolveOrEnd(frames, frame.next) : index + 1 < frames.length ? index + 1 : END);
+  }
+  return [...successors];
+};
+
+/**
+ * Checks the flow graph of an already validated manifest: frame IDs are
+ * unique, every `target` and `next` names a frame, every frame can be reached
+ * from the first one and every reachable frame has a way to the end.
+ */
+export const findFlowIssues = (frames: RawFrame[]): ManifestIssue[] => {
+  const issues: ManifestIssue[] = [];
+
+  const seenIds = new Map<string, number>();
+  frames.forEach((frame, index) => {
+    const id = frameIdAt(frame, index);
+    const first = seenIds.get(id);
+    if (first !== undefined) {
+      issues.push({ frameIndex: index, path: 'id', expected: 'unique frame id', actual: `"${id}" is also used by frame ${first + 1}` });
+    } else {
+      seenIds.set(id, index);
+    }
+  });
+
+  frames.forEach((frame, index) => {
+    if (typeof frame.next === 'string' && resolveFrameRef(frames, frame.next) === -1) {
+      issues.push({ frameIndex: index, path: 'next', expected: 'id or image name of a frame, or null', actual: `"${frame.next}" matches no frame` });
+    }
+    frame.hotspots.forEach((hotspot, i) => {
+      if (typeof hotspot.target === 'string' && resolveFrameRef(frames, hotspot.target) === -1) {
+        issues.push({ frameIndex: index, path: `hotspots[${i}].target`, expected: 'id or image name of a frame, or null', actual: `"${hotspot.target}" matches no frame` });
+      }
+    });
+  });
+  // Reachability is meaningless while references are broken.
+  if (issues.length > 0) return issues;
+
+  const successors = frames.map((_, index) => getSuccessors(frames, index));
+
+  const reachable = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const index = queue.shift() as number;
+    successors[index].forEach(next => {
+      if (next !== END && !reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    });
+  }
+
+  // Grow the set of frames that can still finish the test until it stops changing.
+  const canFinish = new Set<number>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    successors.forEach((next, index) => {
+      if (!canFinish.has(index) && next.some(n => n === END || canFinish.has(n))) {
+        canFinish.add(index);
+        changed = true;
+      }
+    });
+  }
+
+  frames.forEach((_, index) => {
+    if (!reachable.has(index)) {
+      issues.push({ frameIndex: index, path: '', expected: 'frame reachable from the first frame', actual: 'unreachable' });
+    } else if (!canFinish.has(index)) {
+      issues.push({ frameIndex: index, path: '', expected: 'a way on to the end of the test', actual: 'dead end' });
+    }
+  });
+  return issues;
+};
@@ -0,0 +1,241 @@
+import { Manifest } from '../types';
+import { validateManifest, serializeManifest } from './manifestValidation';
+import { ImageSize, readImageSize } from './imageSize';
+import { gunzip, isTarHeader, readTar } from './tarArchive';
+import { fetchFile } from './fileFetch';
+
+// Make JSZip available from the global window object loaded via CDN
+declare const JSZip: any;
+
+// Name used for the manifest when the editor exports a test package, and preferred when looking for one.
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+// For the `accept` attribute of package file inputs.
+export const PACKAGE_FILE_TYPES = '.zip,.tar,.tgz,.gz,.json';
+
+export const isPackageFileName = (name: string) => /\.(zip|tar|tgz|tar\.gz|json)$/i.test(name);
+
+// A file in a test package, whatever form the package came in.
+export interface PackageFile {
+  path: string; // '/'-separated, relative to the package root
+  read(): Promise<Blob>;
+  // The start of the file, read until `isEnough` holds or the header limit is reached.
+  readPrefix(isEnough: (bytes: Uint8Array) => boolean): Promise<Uint8Array>;
+}
+
+export interface TestPackage {
+  files: PackageFile[];
+  source: Blob; // The bytes that identify the test, for `computeTestId`
+}
+
+// A file picked as part of a folder, with its path inside the folder.
+export interface FolderEntry {
+  path: string;
+  file: File;
+}
+
+// A JPEG's size can follow a large EXIF block; past this many bytes the image is decoded instead.
+const MAX_HEADER_BYTES = 512 * 1024;
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return joined;
+};
+
+const readStreamPrefix = async (stream: ReadableStream<Uint8Array>, isEnough: (bytes: Uint8Array) => boolean): Promise<Uint8Array> => {
+  const reader = stream.getReader();
+  let bytes = new Uint8Array(0);
+  try {
+    while (!isEnough(bytes) && bytes.length < MAX_HEADER_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytes = concatBytes(bytes, value);
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return bytes;
+};
+
+// Reads the start of a ZIP entry through JSZip's own stream, which stops inflating once paused.
+const readZipEntryPrefix = (entry: any, isEnough: (bytes: Uint8Array) => boolean): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    let bytes = new Uint8Array(0);
+    const stream = entry.internalStream('uint8array');
+    stream.on('data', (chunk: Uint8Array) => {
+      bytes = concatBytes(bytes, chunk);
+      if (isEnough(bytes) || bytes.length >= MAX_HEADER_BYTES) {
+        stream.pause();
+        resolve(bytes);
+      }
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(bytes));
+    stream.resume();
+  });
+
+const blobFile = (path: string, blob: Blob): PackageFile => ({
+  path,
+  read: () => Promise.resolve(blob),
+  readPrefix: isEnough => readStreamPrefix(blob.stream(), isEnough),
+});
+
+const openZip = async (file: Blob): Promise<TestPackage> => {
+  const zip = await JSZip.loadAsync(file);
+  const files: PackageFile[] = Object.values<any>(zip.files)
+    .filter(entry => !entry.dir)
+    .map(entry => ({
+      path: entry.name,
+      read: () => entry.async('blob'),
+      readPrefix: isEnough => readZipEntryPrefix(entry, isEnough),
+    }));
+  return { files, source: file };
+};
+
+const openTar = async (archive: Blob, source: Blob): Promise<TestPackage> => {
+  const entries = await readTar(archive);
+  return { files: entries.map(entry => blobFile(entry.path, entry.blob)), source };
+};
+
+/**
+ * Opens a test package file: a ZIP, a tar archive (gzipped or not), or a lone
+ * JSON manifest whose images are embedded or linked (see `findEmbeddedImage`).
+ * The format is told from the file's first bytes, so downloads with a missing
+ * or wrong file name open too.
+ */
+export const openPackageFile = async (file: Blob): Promise<TestPackage> => {
+  const header = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+  if (header[0] === 0x50 && header[1] === 0x4b) return openZip(file);
+  if (header[0] === 0x1f && header[1] === 0x8b) {
+    const archive = await gunzip(file);
+    if (!isTarHeader(new Uint8Array(await archive.slice(0, 512).arrayBuffer()))) {
+      throw new Error('This gzip file does not contain a tar archive. Test packages can be .zip, .tar.gz or .json files.');
+    }
+    return openTar(archive, file);
+  }
+  if (isTarHeader(header)) return openTar(file, file);
+  const firstChar = new TextDecoder().decode(header).trimStart()[0];
+  if (firstChar === '{' || firstChar === '[') return { files: [blobFile(MANIFEST_FILE_NAME, file)], source: file };
+  throw new Error('This file is not a test package. Upload a .zip, .tar.gz or .json file, or a folder.');
+};
+
+// Opens a test package from the files of an uploaded folder.
+export const openFolder = (entries: FolderEntry[]): TestPackage => {
+  const sorted = [...entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return {
+    files: sorted.map(({ path, file }) => blobFile(path, file)),
+    // Paths and contents together, so the same folder always gets the same test ID.
+    source: new Blob(sorted.flatMap(({ path, file }) => [path, '\0', file])),
+  };
+};
+
+// macOS adds __MACOSX/ folders and ._ resource files; other hidden files are never part of a test either.
+const isIgnoredPath = (path: string) => path.split('/').some(part => part === '__MACOSX' || part.startsWith('.'));
+
+const depthOf = (path: string) => path.split('/').length;
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const byDepthThenPath = (a: PackageFile, b: PackageFile) =>
+  depthOf(a.path) - depthOf(b.path) || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+
+const listPaths = (files: PackageFile[]) => files.map(file => `"${file.path}"`).join(', ');
+
+/**
+ * Picks the manifest of a package: the `manifest.json` closest to the root if
+ * there is one, otherwise the package's only JSON file. Throws when that does
+ * not single out one file, rather than guessing.
+ */
+export const findManifestEntry = (pkg: TestPackage): PackageFile => {
+  const candidates = pkg.files.filter(file => !isIgnoredPath(file.path) && file.path.toLowerCase().endsWith('.json')).sort(byDepthThenPath);
+  const named = candidates.filter(file => baseName(file.path).toLowerCase() === MANIFEST_FILE_NAME);
+  if (named.length > 0) {
+    const closest = named.filter(file => depthOf(file.path) === depthOf(named[0].path));
+    if (closest.length > 1) {
+      throw new Error(`The test package contains several ${MANIFEST_FILE_NAME} files at the same level: ${listPaths(closest)}. Keep only one.`);
+    }
+    return named[0];
+  }
+  if (candidates.length === 1) return candidates[0];
+  if (candidates.length === 0) {
+    throw new Error(`The test package must contain a JSON manifest file, ideally named ${MANIFEST_FILE_NAME}.`);
+  }
+  throw new Error(`The test package contains several JSON files (${listPaths(candidates)}) and none is named ${MANIFEST_FILE_NAME}. Rename the manifest to ${MANIFEST_FILE_NAME}.`);
+};
+
+// An image is found by its path in the package, or failing that by file name, the one closest to the root winning.
+export const findImageEntry = (pkg: TestPackage, imageName: string): PackageFile | null => {
+  const matches = pkg.files
+    .filter(file => !isIgnoredPath(file.path) && (file.path === imageName || file.path.endsWith('/' + imageName)))
+    .sort(byDepthThenPath);
+  return matches.find(file => file.path === imageName) ?? matches[0] ?? null;
+};
+
+const isImageUrl = (value: string) => /^(data:image\/|https?:\/\/)/i.test(value);
+
+const urlFile = (path: string, url: string): PackageFile => {
+  // data: URLs are decoded by fetch itself; remote images may need the file proxy.
+  const open = () => (url.startsWith('data:') ? fetch(url) : fetchFile(url));
+  return {
+    path,
+    read: async () => (await open()).blob(),
+    readPrefix: async isEnough => {
+      const response = await open();
+      return response.body ? readStreamPrefix(response.body, isEnough) : new Uint8Array(await response.arrayBuffer());
+    },
+  };
+};
+
+/**
+ * An image carried by the manifest itself rather than the package: an entry of
+ * its `images` map, or a frame `image` that is a data: or http(s) URL. This is
+ * what lets a single JSON file be a whole test.
+ */
+export const findEmbeddedImage = (manifest: Manifest, imageName: string): PackageFile | null => {
+  const url = manifest.images?.[imageName] ?? (isImageUrl(imageName) ? imageName : null);
+  return url ? urlFile(imageName, url) : null;
+};
+
+// Reads, parses and validates the JSON manifest of a test package.
+export const readManifest = async (pkg: TestPackage): Promise<Manifest> => {
+  const content = await (await findManifestEntry(pkg).read()).text();
+  let parsedJson: unknown;
+  try {
+    parsedJson = JSON.parse(content);
+  } catch (parseError) {
+    throw new Error(`The JSON manifest could not be parsed: ${parseError instanceof Error ? parseError.message : parseError}`);
+  }
+  return validateManifest(parsedJson);
+};
+
+export const measureImage = (url: string, imageName: string): Promise<{ width: number, height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error(`Could not get dimensions for image: ${imageName}`));
+    img.src = url;
+  });
+
+// The pixel size of an image in the package, read from its header where possible so the image is not decoded.
+export const measureImageEntry = async (entry: PackageFile, imageName: string): Promise<ImageSize> => {
+  const header = await entry.readPrefix(bytes => readImageSize(bytes) !== null);
+  const size = readImageSize(header);
+  if (size) return size;
+  const url = URL.createObjectURL(await entry.read());
+  try {
+    const { width, height } = await measureImage(url, imageName);
+    return { width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Builds a ZIP in the format `readManifest` consumes: the manifest plus every image at the root.
+export const buildTestZip = async (manifest: Manifest, images: { name: string, blob: Blob }[]): Promise<Blob> => {
+  const zip = new JSZip();
+  zip.file(MANIFEST_FILE_NAME, serializeManifest(manifest));
+  images.forEach(({ name, blob }) => zip.file(name, blob));
+  return zip.generateAsync({ type: 'blob' });
+};